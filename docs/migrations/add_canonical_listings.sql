@@ -0,0 +1,45 @@
+-- Migration: Add canonical listings for cross-group deduplication
+-- Description: The same property posted by several brokers in several groups is clustered into one canonical listing
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.canonical_listings (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    listing_type text NOT NULL,
+    property_type text,
+    property_name text,
+    location text,
+    area_name text,
+    city text,
+    bedrooms integer,
+    area_sqft integer,
+    floor_number integer,
+    price_min numeric,
+    price_max numeric,
+    price_period text,
+    first_seen_at timestamptz NOT NULL DEFAULT now(),
+    last_seen_at timestamptz NOT NULL DEFAULT now(),
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT canonical_listings_pkey PRIMARY KEY (id),
+    CONSTRAINT canonical_listings_listing_type_check CHECK (listing_type IN ('sale', 'rental', 'lease'))
+);
+
+ALTER TABLE public.parsed_real_estate_properties
+ADD COLUMN IF NOT EXISTS canonical_listing_id uuid
+REFERENCES public.canonical_listings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_parsed_properties_canonical_listing_id ON public.parsed_real_estate_properties(canonical_listing_id);
+CREATE INDEX IF NOT EXISTS idx_canonical_listings_candidates ON public.canonical_listings(listing_type, bedrooms, last_seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_canonical_listings_price_min ON public.canonical_listings(price_min);
+
+-- Enable Row Level Security (same access model as parsed_real_estate_properties)
+ALTER TABLE public.canonical_listings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read for all" ON public.canonical_listings
+    FOR SELECT
+    USING (true);
+
+GRANT SELECT ON public.canonical_listings TO authenticated;
+
+COMMENT ON TABLE public.canonical_listings IS 'One row per real-world property; parsed_real_estate_properties rows are its sources';
+COMMENT ON COLUMN public.parsed_real_estate_properties.canonical_listing_id IS 'Canonical listing this parsed property was clustered into';
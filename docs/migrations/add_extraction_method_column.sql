@@ -0,0 +1,13 @@
+-- Migration: Add extraction method to parsed properties
+-- Description: Records whether a property was extracted by the LLM or by the offline rule-based extractor
+-- Date: 2026-10-19
+
+ALTER TABLE public.parsed_real_estate_properties
+ADD COLUMN IF NOT EXISTS extraction_method text;
+
+-- Everything parsed before this migration came from the LLM
+UPDATE public.parsed_real_estate_properties
+SET extraction_method = 'llm'
+WHERE extraction_method IS NULL;
+
+COMMENT ON COLUMN public.parsed_real_estate_properties.extraction_method IS 'Extractor that produced the row: llm or rules';
@@ -0,0 +1,27 @@
+-- Migration: Add per-user filter profiles
+-- Description: Users tune which incoming messages are stored (keywords, weights, threshold, required patterns)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.filter_profiles (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    user_id uuid NOT NULL,
+    name text NOT NULL,
+    rules jsonb NOT NULL DEFAULT '{}',
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT filter_profiles_pkey PRIMARY KEY (id),
+    CONSTRAINT filter_profiles_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_filter_profiles_user_active ON public.filter_profiles(user_id) WHERE is_active = true;
+
+-- Enable Row Level Security (users only see their own profiles)
+ALTER TABLE public.filter_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own filter profiles" ON public.filter_profiles
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.filter_profiles.rules IS 'Filter rules: include_keywords, exclude_keywords, weights, threshold (0-1), required_patterns';
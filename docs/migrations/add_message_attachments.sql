@@ -0,0 +1,35 @@
+-- Migration: Add media attachments table
+-- Description: Stores image, video and document attachments downloaded from listing messages
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_message_attachments (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    message_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    media_type text NOT NULL, -- image, video, document
+    mime_type text,
+    file_name text,
+    file_size integer,
+    caption text,
+    storage_driver text NOT NULL, -- local, supabase
+    storage_key text NOT NULL,
+    sha256 text NOT NULL,
+    created_at timestamp with time zone DEFAULT now(),
+    CONSTRAINT whatsapp_message_attachments_pkey PRIMARY KEY (id),
+    CONSTRAINT whatsapp_message_attachments_message_id_fkey FOREIGN KEY (message_id) REFERENCES public.whatsapp_messages(id) ON DELETE CASCADE,
+    CONSTRAINT whatsapp_message_attachments_media_type_check CHECK (media_type IN ('image', 'video', 'document'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_message_attachments_message_id ON public.whatsapp_message_attachments(message_id);
+
+-- Enable Row Level Security (same access model as whatsapp_messages)
+ALTER TABLE public.whatsapp_message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read for all" ON public.whatsapp_message_attachments
+    FOR SELECT
+    USING (true);
+
+GRANT SELECT ON public.whatsapp_message_attachments TO authenticated;
+
+-- When MEDIA_STORAGE_DRIVER=supabase, create a private bucket for the files
+-- INSERT INTO storage.buckets (id, name, public) VALUES ('whatsapp-media', 'whatsapp-media', false);
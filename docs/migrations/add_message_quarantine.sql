@@ -0,0 +1,40 @@
+-- Migration: Add quarantine for filtered-out messages
+-- Description: Group messages the property filter rejected are kept for review; promoted ones become labeled filter false negatives
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.quarantined_messages (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    user_id uuid NOT NULL,
+    timestamp timestamptz NOT NULL,
+    group_id text NOT NULL,
+    group_name text NOT NULL,
+    sender text NOT NULL,
+    message_text text NOT NULL,
+    message_meta jsonb NOT NULL DEFAULT '{}',
+    message_hash text NOT NULL,
+    wa_message_id text,
+    filter_result jsonb NOT NULL,
+    confidence numeric NOT NULL DEFAULT 0,
+    promoted_at timestamptz,
+    promoted_message_id uuid,
+    created_at timestamptz DEFAULT now(),
+    CONSTRAINT quarantined_messages_pkey PRIMARY KEY (id),
+    CONSTRAINT quarantined_messages_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT quarantined_messages_promoted_message_id_fkey FOREIGN KEY (promoted_message_id) REFERENCES public.whatsapp_messages(id) ON DELETE SET NULL,
+    CONSTRAINT quarantined_messages_user_hash_key UNIQUE (user_id, message_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quarantined_messages_user_group_confidence ON public.quarantined_messages(user_id, group_id, confidence DESC);
+CREATE INDEX IF NOT EXISTS idx_quarantined_messages_user_promoted ON public.quarantined_messages(user_id, promoted_at DESC) WHERE promoted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quarantined_messages_expiry ON public.quarantined_messages(created_at) WHERE promoted_at IS NULL;
+
+-- Enable Row Level Security (users only see their own quarantine)
+ALTER TABLE public.quarantined_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own quarantined messages" ON public.quarantined_messages
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.quarantined_messages.filter_result IS 'PropertyFilterResult at the time the message was rejected';
+COMMENT ON COLUMN public.quarantined_messages.promoted_at IS 'Set when a reviewer moved the message to whatsapp_messages; promoted rows are kept past the retention window as labeled data';
@@ -0,0 +1,12 @@
+-- Migration: Store quoted-reply context on messages
+-- Description: Which earlier message a reply quotes, so reply chains can be walked and price updates applied to the quoted listing
+-- Date: 2026-10-19
+
+ALTER TABLE public.whatsapp_messages
+    ADD COLUMN IF NOT EXISTS quoted_wa_message_id text,
+    ADD COLUMN IF NOT EXISTS quoted_participant text;
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_group_quoted_wa_message_id ON public.whatsapp_messages(group_id, quoted_wa_message_id) WHERE quoted_wa_message_id IS NOT NULL;
+
+COMMENT ON COLUMN public.whatsapp_messages.quoted_wa_message_id IS 'WhatsApp message id (contextInfo.stanzaId) of the message this one replies to';
+COMMENT ON COLUMN public.whatsapp_messages.quoted_participant IS 'Participant JID who sent the quoted message';
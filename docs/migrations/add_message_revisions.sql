@@ -0,0 +1,47 @@
+-- Migration: Track message edits, deletions and reactions
+-- Description: WhatsApp message ids on stored messages, a revision history for edits and deletions, reactions, and a listing status on parsed properties
+-- Date: 2026-10-19
+
+ALTER TABLE public.whatsapp_messages
+    ADD COLUMN IF NOT EXISTS wa_message_id text,
+    ADD COLUMN IF NOT EXISTS edited_at timestamptz,
+    ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+    ADD COLUMN IF NOT EXISTS reactions jsonb NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_group_wa_message_id ON public.whatsapp_messages(group_id, wa_message_id);
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_message_revisions (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    message_id uuid NOT NULL,
+    revision_type text NOT NULL,
+    previous_text text,
+    new_text text,
+    created_at timestamptz DEFAULT now(),
+    CONSTRAINT whatsapp_message_revisions_pkey PRIMARY KEY (id),
+    CONSTRAINT whatsapp_message_revisions_message_id_fkey FOREIGN KEY (message_id) REFERENCES public.whatsapp_messages(id) ON DELETE CASCADE,
+    CONSTRAINT whatsapp_message_revisions_type_check CHECK (revision_type IN ('edit', 'delete'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_message_revisions_message_id ON public.whatsapp_message_revisions(message_id, created_at);
+
+ALTER TABLE public.parsed_real_estate_properties
+    ADD COLUMN IF NOT EXISTS listing_status text NOT NULL DEFAULT 'active',
+    ADD COLUMN IF NOT EXISTS status_changed_at timestamptz;
+
+ALTER TABLE public.parsed_real_estate_properties
+    ADD CONSTRAINT parsed_real_estate_properties_listing_status_check CHECK (listing_status IN ('active', 'superseded', 'withdrawn'));
+
+CREATE INDEX IF NOT EXISTS idx_parsed_properties_listing_status ON public.parsed_real_estate_properties(listing_status);
+
+-- Enable Row Level Security (same access model as whatsapp_messages)
+ALTER TABLE public.whatsapp_message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read for all" ON public.whatsapp_message_revisions
+    FOR SELECT
+    USING (true);
+
+GRANT SELECT ON public.whatsapp_message_revisions TO authenticated;
+
+COMMENT ON COLUMN public.whatsapp_messages.wa_message_id IS 'WhatsApp message key id, used to apply later edits, deletions and reactions';
+COMMENT ON COLUMN public.whatsapp_messages.reactions IS 'Latest reaction per participant JID, e.g. {"9198...@s.whatsapp.net": "👍"}';
+COMMENT ON COLUMN public.parsed_real_estate_properties.listing_status IS 'active; superseded when the source message was edited and re-parsed; withdrawn when it was deleted';
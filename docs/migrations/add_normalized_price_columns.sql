@@ -0,0 +1,36 @@
+-- Migration: Add normalized price columns to parsed properties
+-- Description: Rupee price range, unit and period produced by the price normalizer, plus deposit and negotiable flags
+-- Date: 2026-10-19
+
+ALTER TABLE public.parsed_real_estate_properties
+ADD COLUMN IF NOT EXISTS price_min numeric,
+ADD COLUMN IF NOT EXISTS price_max numeric,
+ADD COLUMN IF NOT EXISTS price_unit text,
+ADD COLUMN IF NOT EXISTS price_period text,
+ADD COLUMN IF NOT EXISTS deposit_amount numeric,
+ADD COLUMN IF NOT EXISTS price_negotiable boolean;
+
+ALTER TABLE public.parsed_real_estate_properties
+DROP CONSTRAINT IF EXISTS parsed_properties_price_period_check;
+
+ALTER TABLE public.parsed_real_estate_properties
+ADD CONSTRAINT parsed_properties_price_period_check
+CHECK (price_period IS NULL OR price_period IN ('total', 'month', 'year'));
+
+-- Best effort for existing rows: reuse the LLM's numeric price
+UPDATE public.parsed_real_estate_properties
+SET price_min = price_numeric,
+    price_max = price_numeric,
+    price_unit = 'INR',
+    price_period = CASE WHEN listing_type = 'sale' THEN 'total' ELSE 'month' END
+WHERE price_numeric IS NOT NULL AND price_min IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_parsed_properties_price_min ON public.parsed_real_estate_properties(price_min);
+CREATE INDEX IF NOT EXISTS idx_parsed_properties_price_max ON public.parsed_real_estate_properties(price_max);
+
+COMMENT ON COLUMN public.parsed_real_estate_properties.price_min IS 'Lower bound of the price in rupees (equal to price_max unless a range was given)';
+COMMENT ON COLUMN public.parsed_real_estate_properties.price_max IS 'Upper bound of the price in rupees';
+COMMENT ON COLUMN public.parsed_real_estate_properties.price_unit IS 'INR for a whole-property price, INR/sqft for per square foot rates';
+COMMENT ON COLUMN public.parsed_real_estate_properties.price_period IS 'total (one-off sale price), month or year';
+COMMENT ON COLUMN public.parsed_real_estate_properties.deposit_amount IS 'Security deposit in rupees, kept separate from the rent';
+COMMENT ON COLUMN public.parsed_real_estate_properties.price_negotiable IS 'true if marked negotiable, false if marked fixed, NULL if not stated';
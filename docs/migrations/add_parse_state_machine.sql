@@ -0,0 +1,87 @@
+-- Migration: Replace the processed flag with a parse state machine
+-- Description: Messages move through pending -> in_progress -> succeeded, or failed (retried with backoff) -> dead
+-- Date: 2026-10-19
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS parse_status text NOT NULL DEFAULT 'pending',
+ADD COLUMN IF NOT EXISTS parse_attempts integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS parse_next_attempt_at timestamptz DEFAULT now(),
+ADD COLUMN IF NOT EXISTS parse_lease_expires_at timestamptz,
+ADD COLUMN IF NOT EXISTS parse_last_error text,
+ADD COLUMN IF NOT EXISTS parse_updated_at timestamptz DEFAULT now();
+
+ALTER TABLE public.whatsapp_messages
+DROP CONSTRAINT IF EXISTS whatsapp_messages_parse_status_check;
+
+ALTER TABLE public.whatsapp_messages
+ADD CONSTRAINT whatsapp_messages_parse_status_check
+CHECK (parse_status IN ('pending', 'in_progress', 'succeeded', 'failed', 'dead'));
+
+-- Carry over messages the old job already handled
+UPDATE public.whatsapp_messages
+SET parse_status = 'succeeded'
+WHERE processed = true;
+
+DROP INDEX IF EXISTS idx_whatsapp_messages_processed;
+DROP INDEX IF EXISTS idx_whatsapp_messages_unprocessed_timestamp;
+
+ALTER TABLE public.whatsapp_messages
+DROP COLUMN IF EXISTS processed;
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_parse_status
+ON public.whatsapp_messages(parse_status);
+
+-- Due work: pending/failed messages by retry time, in-progress ones by lease expiry
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_parse_queue
+ON public.whatsapp_messages(parse_next_attempt_at)
+WHERE parse_status IN ('pending', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_parse_lease
+ON public.whatsapp_messages(parse_lease_expires_at)
+WHERE parse_status = 'in_progress';
+
+-- Lease a batch of due messages. A worker that dies mid-batch leaves its
+-- messages in_progress; once the lease expires they are claimed again, or
+-- moved to dead if they have used up their attempts.
+CREATE OR REPLACE FUNCTION public.claim_messages_for_parsing(
+  batch_size integer,
+  lease_seconds integer,
+  max_attempts integer
+)
+RETURNS SETOF public.whatsapp_messages
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.whatsapp_messages
+  SET parse_status = 'dead',
+      parse_lease_expires_at = NULL,
+      parse_last_error = COALESCE(parse_last_error, 'Lease expired'),
+      parse_updated_at = now()
+  WHERE parse_status = 'in_progress'
+    AND parse_lease_expires_at < now()
+    AND parse_attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.whatsapp_messages m
+  SET parse_status = 'in_progress',
+      parse_attempts = m.parse_attempts + 1,
+      parse_lease_expires_at = now() + make_interval(secs => lease_seconds),
+      parse_updated_at = now()
+  WHERE m.id IN (
+    SELECT id
+    FROM public.whatsapp_messages
+    WHERE (parse_status IN ('pending', 'failed') AND parse_next_attempt_at <= now())
+       OR (parse_status = 'in_progress' AND parse_lease_expires_at < now())
+    ORDER BY timestamp ASC
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$;
+
+COMMENT ON COLUMN public.whatsapp_messages.parse_status IS 'Parse state: pending, in_progress, succeeded, failed (will retry) or dead';
+COMMENT ON COLUMN public.whatsapp_messages.parse_attempts IS 'Number of times the parser has claimed this message';
+COMMENT ON COLUMN public.whatsapp_messages.parse_next_attempt_at IS 'Earliest time a pending/failed message may be claimed';
+COMMENT ON COLUMN public.whatsapp_messages.parse_lease_expires_at IS 'When an in_progress claim expires and the message can be reclaimed';
+COMMENT ON COLUMN public.whatsapp_messages.parse_last_error IS 'Error from the most recent failed attempt';
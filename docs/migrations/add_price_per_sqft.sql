@@ -0,0 +1,19 @@
+-- Migration: Keep per square foot rates out of the price range
+-- Description: Moves INR/sqft rates to price_per_sqft so price_min/price_max and price_numeric only hold whole-property amounts
+-- Date: 2026-10-19
+
+ALTER TABLE public.parsed_real_estate_properties
+ADD COLUMN IF NOT EXISTS price_per_sqft numeric;
+
+-- Existing rates become a total where the area is known, otherwise no price
+UPDATE public.parsed_real_estate_properties
+SET price_per_sqft = price_min,
+    price_min = CASE WHEN area_sqft IS NOT NULL THEN price_min * area_sqft END,
+    price_max = CASE WHEN area_sqft IS NOT NULL THEN price_max * area_sqft END,
+    price_numeric = CASE WHEN area_sqft IS NOT NULL THEN price_min * area_sqft END,
+    price_unit = CASE WHEN area_sqft IS NOT NULL THEN 'INR' END,
+    price_period = CASE WHEN area_sqft IS NOT NULL THEN 'total' END
+WHERE price_unit = 'INR/sqft';
+
+COMMENT ON COLUMN public.parsed_real_estate_properties.price_unit IS 'INR; per square foot rates are in price_per_sqft';
+COMMENT ON COLUMN public.parsed_real_estate_properties.price_per_sqft IS 'Quoted rate in rupees per square foot, e.g. "12,500 psf"';
@@ -0,0 +1,17 @@
+-- Migration: Coordinates for messages and parsed properties
+-- Description: Latitude/longitude from location pins on listing messages, and geocoded coordinates on parsed properties
+-- Date: 2026-10-19
+
+ALTER TABLE public.whatsapp_messages
+    ADD COLUMN IF NOT EXISTS latitude double precision,
+    ADD COLUMN IF NOT EXISTS longitude double precision;
+
+ALTER TABLE public.parsed_real_estate_properties
+    ADD COLUMN IF NOT EXISTS latitude double precision,
+    ADD COLUMN IF NOT EXISTS longitude double precision,
+    ADD COLUMN IF NOT EXISTS geocode_source text;
+
+CREATE INDEX IF NOT EXISTS idx_parsed_properties_coordinates ON public.parsed_real_estate_properties(latitude, longitude) WHERE latitude IS NOT NULL;
+
+COMMENT ON COLUMN public.whatsapp_messages.latitude IS 'From a location pin the sender posted next to the listing';
+COMMENT ON COLUMN public.parsed_real_estate_properties.geocode_source IS 'message_location for a location pin, otherwise the geocoder provider (gazetteer)';
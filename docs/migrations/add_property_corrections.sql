@@ -0,0 +1,37 @@
+-- Migration: Add manual corrections for parsed properties
+-- Description: Field-level edit history and locked fields that re-parsing must not overwrite
+-- Date: 2026-10-19
+
+ALTER TABLE public.parsed_real_estate_properties
+    ADD COLUMN IF NOT EXISTS locked_fields text[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS public.property_corrections (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    property_id uuid NOT NULL,
+    editor_id uuid NOT NULL,
+    field text NOT NULL,
+    old_value jsonb,
+    new_value jsonb,
+    created_at timestamptz DEFAULT now(),
+    CONSTRAINT property_corrections_pkey PRIMARY KEY (id),
+    CONSTRAINT property_corrections_property_id_fkey FOREIGN KEY (property_id) REFERENCES public.parsed_real_estate_properties(id) ON DELETE CASCADE,
+    CONSTRAINT property_corrections_editor_id_fkey FOREIGN KEY (editor_id) REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_corrections_property_id ON public.property_corrections(property_id, created_at);
+
+-- Enable Row Level Security (users only see corrections to their own
+-- properties; only the service role writes them)
+ALTER TABLE public.property_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own property corrections" ON public.property_corrections
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.parsed_real_estate_properties p
+            WHERE p.id = property_id AND p.user_id = auth.uid()
+        )
+    );
+
+COMMENT ON COLUMN public.parsed_real_estate_properties.locked_fields IS 'Fields corrected by hand; re-parsing, reply price updates and location pins leave them alone';
+COMMENT ON TABLE public.property_corrections IS 'One row per field changed through PATCH /api/properties/:id';
@@ -0,0 +1,53 @@
+-- Migration: Add buyer/tenant requirements
+-- Description: Messages are classified as offers or requirements; requirements are parsed into their own table for matching against listings
+-- Date: 2026-10-19
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS message_intent text;
+
+ALTER TABLE public.whatsapp_messages
+DROP CONSTRAINT IF EXISTS whatsapp_messages_message_intent_check;
+
+ALTER TABLE public.whatsapp_messages
+ADD CONSTRAINT whatsapp_messages_message_intent_check
+CHECK (message_intent IS NULL OR message_intent IN ('offer', 'requirement'));
+
+CREATE TABLE IF NOT EXISTS public.property_requirements (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    message_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    listing_type text NOT NULL,
+    property_type text,
+    bedrooms integer,
+    budget_min numeric,
+    budget_max numeric,
+    budget_period text,
+    preferred_areas text[] NOT NULL DEFAULT '{}',
+    min_area_sqft integer,
+    furnishing text,
+    contact_info text,
+    raw_message_text text,
+    parsing_confidence numeric(3,2) DEFAULT 0.0,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT property_requirements_pkey PRIMARY KEY (id),
+    CONSTRAINT property_requirements_message_id_fkey FOREIGN KEY (message_id) REFERENCES public.whatsapp_messages(id) ON DELETE CASCADE,
+    CONSTRAINT property_requirements_listing_type_check CHECK (listing_type IN ('sale', 'rental', 'lease'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_requirements_message_id ON public.property_requirements(message_id);
+CREATE INDEX IF NOT EXISTS idx_property_requirements_listing_type_created_at ON public.property_requirements(listing_type, created_at DESC);
+
+-- Enable Row Level Security (same access model as parsed_real_estate_properties)
+ALTER TABLE public.property_requirements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read for all" ON public.property_requirements
+    FOR SELECT
+    USING (true);
+
+GRANT SELECT ON public.property_requirements TO authenticated;
+
+COMMENT ON COLUMN public.whatsapp_messages.message_intent IS 'offer (property listing) or requirement (someone looking for a property)';
+COMMENT ON COLUMN public.property_requirements.budget_min IS 'Lower budget bound in rupees, NULL when only a ceiling was given';
+COMMENT ON COLUMN public.property_requirements.budget_max IS 'Upper budget bound in rupees';
+COMMENT ON COLUMN public.property_requirements.preferred_areas IS 'Localities the buyer/tenant asked for';
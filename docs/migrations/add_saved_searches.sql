@@ -0,0 +1,51 @@
+-- Migration: Add saved searches and new-listing alerts
+-- Description: Users save a property filter set; the parsing job records an alert for every new property that matches
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    user_id uuid NOT NULL,
+    name text NOT NULL,
+    filters jsonb NOT NULL DEFAULT '{}',
+    is_active boolean NOT NULL DEFAULT true,
+    last_matched_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT saved_searches_pkey PRIMARY KEY (id),
+    CONSTRAINT saved_searches_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS public.saved_search_alerts (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    saved_search_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    property_id uuid NOT NULL,
+    is_read boolean NOT NULL DEFAULT false,
+    read_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    CONSTRAINT saved_search_alerts_pkey PRIMARY KEY (id),
+    CONSTRAINT saved_search_alerts_saved_search_id_fkey FOREIGN KEY (saved_search_id) REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+    CONSTRAINT saved_search_alerts_property_id_fkey FOREIGN KEY (property_id) REFERENCES public.parsed_real_estate_properties(id) ON DELETE CASCADE,
+    CONSTRAINT saved_search_alerts_search_property_key UNIQUE (saved_search_id, property_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON public.saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_active ON public.saved_searches(is_active) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_user_created_at ON public.saved_search_alerts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_user_unread ON public.saved_search_alerts(user_id) WHERE is_read = false;
+
+-- Enable Row Level Security (users only see their own searches and alerts)
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own saved searches" ON public.saved_searches
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own alerts" ON public.saved_search_alerts
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.saved_searches.filters IS 'Property search filters (listing_type, location, min_price, ...) as accepted by /api/parsing-job/properties';
@@ -0,0 +1,57 @@
+-- Migration: Add outbound webhooks
+-- Description: Per-user webhook subscriptions and a delivery log that the dispatcher retries with backoff
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.webhook_subscriptions (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    user_id uuid NOT NULL,
+    url text NOT NULL,
+    secret text NOT NULL,
+    events text[] NOT NULL DEFAULT '{}',
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT webhook_subscriptions_pkey PRIMARY KEY (id),
+    CONSTRAINT webhook_subscriptions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id uuid NOT NULL DEFAULT uuid_generate_v4(),
+    subscription_id uuid NOT NULL,
+    user_id uuid NOT NULL,
+    event_id uuid NOT NULL,
+    event_type text NOT NULL,
+    payload jsonb NOT NULL,
+    status text NOT NULL DEFAULT 'pending',
+    attempts integer NOT NULL DEFAULT 0,
+    next_attempt_at timestamptz DEFAULT now(),
+    last_status_code integer,
+    last_error text,
+    delivered_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT webhook_deliveries_pkey PRIMARY KEY (id),
+    CONSTRAINT webhook_deliveries_subscription_id_fkey FOREIGN KEY (subscription_id) REFERENCES public.webhook_subscriptions(id) ON DELETE CASCADE,
+    CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('pending', 'succeeded', 'failed', 'dead'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user_id ON public.webhook_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_events ON public.webhook_subscriptions USING GIN (events);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription_created_at ON public.webhook_deliveries(subscription_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at) WHERE status IN ('pending', 'failed');
+
+-- Enable Row Level Security (users only see their own subscriptions and deliveries)
+ALTER TABLE public.webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own webhook subscriptions" ON public.webhook_subscriptions
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own webhook deliveries" ON public.webhook_deliveries
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.webhook_subscriptions.secret IS 'HMAC-SHA256 key for the X-Webhook-Signature header';
+COMMENT ON COLUMN public.webhook_deliveries.event_id IS 'Same for every delivery and replay of one event, so receivers can de-duplicate';
@@ -0,0 +1,24 @@
+-- Migration: Add WhatsApp session desired state
+-- Description: Per-user listening/paused flag so linked sessions are restored on server boot unless paused
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_session_state (
+    user_id uuid NOT NULL,
+    desired_state text NOT NULL DEFAULT 'listening',
+    updated_at timestamptz DEFAULT now(),
+    CONSTRAINT whatsapp_session_state_pkey PRIMARY KEY (user_id),
+    CONSTRAINT whatsapp_session_state_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+    CONSTRAINT whatsapp_session_state_desired_state_check CHECK (desired_state IN ('listening', 'paused'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_session_state_paused ON public.whatsapp_session_state(user_id) WHERE desired_state = 'paused';
+
+-- Enable Row Level Security (users only see their own state)
+ALTER TABLE public.whatsapp_session_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own session state" ON public.whatsapp_session_state
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.whatsapp_session_state.desired_state IS 'listening: reconnect on boot; paused: stay disconnected until resumed. Users without a row are listening';
@@ -3,6 +3,20 @@ import {
   createAuthenticatedSupabaseClient,
   WhatsAppMessage,
 } from "../lib/supabase";
+import { MediaService } from "../services/media-service";
+
+// Embed stored media with every message returned by the API
+const MESSAGE_WITH_ATTACHMENTS =
+  "*, attachments:whatsapp_message_attachments(*)";
+
+// The sender picks the mime type; anything else is downloaded, never rendered
+const INLINE_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+];
 
 export const getMessages = async (req: Request, res: Response) => {
   try {
@@ -18,7 +32,7 @@ export const getMessages = async (req: Request, res: Response) => {
     // Query all messages - RLS policies will handle access control
     let query = supabase
       .from("whatsapp_messages")
-      .select("*")
+      .select(MESSAGE_WITH_ATTACHMENTS)
       .order("timestamp", { ascending: false });
 
     if (group_name) {
@@ -64,7 +78,7 @@ export const getMessagesByGroup = async (req: Request, res: Response) => {
     // Query all messages for the group - RLS policies will handle access control
     const { data, error } = await supabase
       .from("whatsapp_messages")
-      .select("*")
+      .select(MESSAGE_WITH_ATTACHMENTS)
       .eq("group_name", groupName)
       .order("timestamp", { ascending: false })
       .range(Number(offset), Number(offset) + Number(limit) - 1);
@@ -89,6 +103,191 @@ export const getMessagesByGroup = async (req: Request, res: Response) => {
   }
 };
 
+export const getMessageById = async (req: Request, res: Response) => {
+  try {
+    const userToken = req.headers.authorization?.replace("Bearer ", "");
+
+    if (!userToken) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const supabase = createAuthenticatedSupabaseClient(userToken);
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from("whatsapp_messages")
+      .select(MESSAGE_WITH_ATTACHMENTS)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching message:", error);
+      return res.status(500).json({ error: "Failed to fetch message" });
+    }
+
+    if (!data) {
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    res.json({ message: data });
+  } catch (error) {
+    console.error("Error in getMessageById:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Guards against reply loops and runaway threads
+const MAX_THREAD_DEPTH = 20;
+
+/**
+ * Walk a reply chain up to the message it started from, then collect every
+ * reply below that root. Messages come back oldest first; each reply's
+ * quoted_wa_message_id points at its parent.
+ */
+export const getMessageThread = async (req: Request, res: Response) => {
+  try {
+    const userToken = req.headers.authorization?.replace("Bearer ", "");
+
+    if (!userToken) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const supabase = createAuthenticatedSupabaseClient(userToken);
+    const { id } = req.params;
+
+    const { data: message, error } = await supabase
+      .from("whatsapp_messages")
+      .select(MESSAGE_WITH_ATTACHMENTS)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching message:", error);
+      return res.status(500).json({ error: "Failed to fetch message" });
+    }
+
+    if (!message) {
+      return res.status(404).json({ error: "Message not found" });
+    }
+
+    let root = message;
+    for (
+      let depth = 0;
+      root.quoted_wa_message_id && depth < MAX_THREAD_DEPTH;
+      depth++
+    ) {
+      // Every user in the group stores a copy; stay within this user's
+      const { data: parent, error: parentError } = await supabase
+        .from("whatsapp_messages")
+        .select(MESSAGE_WITH_ATTACHMENTS)
+        .eq("user_id", message.user_id)
+        .eq("group_id", root.group_id)
+        .eq("wa_message_id", root.quoted_wa_message_id)
+        .limit(1)
+        .maybeSingle();
+
+      if (parentError) {
+        console.error("Error fetching quoted message:", parentError);
+        return res.status(500).json({ error: "Failed to fetch thread" });
+      }
+
+      // The quoted message was never stored (not a listing, or older)
+      if (!parent) break;
+      root = parent;
+    }
+
+    const thread = [root];
+    const seen = new Set<string>([root.id]);
+    let parentIds = root.wa_message_id ? [root.wa_message_id] : [];
+
+    for (
+      let depth = 0;
+      parentIds.length > 0 && depth < MAX_THREAD_DEPTH;
+      depth++
+    ) {
+      const { data: replies, error: repliesError } = await supabase
+        .from("whatsapp_messages")
+        .select(MESSAGE_WITH_ATTACHMENTS)
+        .eq("user_id", message.user_id)
+        .eq("group_id", root.group_id)
+        .in("quoted_wa_message_id", parentIds);
+
+      if (repliesError) {
+        console.error("Error fetching replies:", repliesError);
+        return res.status(500).json({ error: "Failed to fetch thread" });
+      }
+
+      const newReplies = (replies || []).filter(
+        (reply: WhatsAppMessage) => !seen.has(reply.id!)
+      );
+      newReplies.forEach((reply: WhatsAppMessage) => seen.add(reply.id!));
+      thread.push(...newReplies);
+      parentIds = newReplies
+        .map((reply: WhatsAppMessage) => reply.wa_message_id)
+        .filter(Boolean) as string[];
+    }
+
+    thread.sort(
+      (a: WhatsAppMessage, b: WhatsAppMessage) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    res.json({ root_id: root.id, message_id: message.id, messages: thread });
+  } catch (error) {
+    console.error("Error in getMessageThread:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getAttachmentContent = async (req: Request, res: Response) => {
+  try {
+    const userToken = req.headers.authorization?.replace("Bearer ", "");
+
+    if (!userToken) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const supabase = createAuthenticatedSupabaseClient(userToken);
+    const { attachmentId } = req.params;
+
+    const { data: attachment, error } = await supabase
+      .from("whatsapp_message_attachments")
+      .select("*")
+      .eq("id", attachmentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching attachment:", error);
+      return res.status(500).json({ error: "Failed to fetch attachment" });
+    }
+
+    if (!attachment) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+
+    const content = await MediaService.readAttachment(attachment);
+    const fileName =
+      attachment.file_name || attachment.storage_key.split("/").pop();
+
+    const mimeType = attachment.mime_type || "application/octet-stream";
+    const disposition = INLINE_MIME_TYPES.includes(mimeType)
+      ? "inline"
+      : "attachment";
+
+    res.setHeader("Content-Type", mimeType);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader(
+      "Content-Disposition",
+      `${disposition}; filename="${encodeURIComponent(fileName)}"`
+    );
+    res.setHeader("Cache-Control", "private, max-age=86400, immutable");
+    res.send(content);
+  } catch (error) {
+    console.error("Error in getAttachmentContent:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 export const getGroupsList = async (req: Request, res: Response) => {
   try {
     const userToken = req.headers.authorization?.replace("Bearer ", "");
@@ -1,9 +1,23 @@
+export type NotAuthorizedCode =
+  | "not_authorized"
+  | "missing_token"
+  | "malformed_token"
+  | "token_expired"
+  | "token_not_active"
+  | "invalid_signature"
+  | "invalid_claims";
+
 export class NotAuthorizedError extends Error {
   public readonly statusCode = 401;
   public readonly name = "NotAuthorizedError";
+  public readonly code: NotAuthorizedCode;
 
-  constructor(message = "Not authorized") {
+  constructor(
+    message = "Not authorized",
+    code: NotAuthorizedCode = "not_authorized"
+  ) {
     super(message);
+    this.code = code;
     Object.setPrototypeOf(this, NotAuthorizedError.prototype);
   }
 }
@@ -0,0 +1,9 @@
+export class ValidationError extends Error {
+  public readonly statusCode = 400;
+  public readonly name = "ValidationError";
+
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
@@ -0,0 +1,417 @@
+import { ParsedRealEstateData } from "../services/listing-parser";
+import { MessageIntent } from "../utils/property-filter";
+
+/**
+ * Labeled messages from the monitored groups. Names, buildings and phone
+ * numbers are replaced; prices, layouts and wording are kept as posted.
+ */
+export interface EvalCase {
+  id: string;
+  text: string;
+  // Expected PropertyFilterResult decision
+  filter: { isPropertyListing: boolean; intent?: MessageIntent };
+  // Expected parser fields, one entry per property; only listed fields are
+  // scored. Omitted for messages the parser should not see.
+  parsed?: Partial<ParsedRealEstateData>[];
+}
+
+export const EVAL_CORPUS: EvalCase[] = [
+  // Offers
+  {
+    id: "rent-andheri-2bhk",
+    text: "2 BHK flat for rent in Andheri West\nRent: 45k per month\nDeposit 2 lakh\nSemi furnished, 1 car parking\n8th floor\nCall 9800000001",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "rental",
+        property_type: "apartment",
+        bedrooms: 2,
+        price_numeric: 45000,
+        furnishing: "semi-furnished",
+        parking: true,
+        floor_number: 8,
+        location: "Andheri West",
+        contact_info: "9800000001",
+      },
+    ],
+  },
+  {
+    id: "sale-powai-3bhk",
+    text: "🏢 *Sale* 🏢\n3 BHK Apartment, Powai\nCarpet 1150 sqft\nPrice ₹2.4 Cr negotiable\n12/20 floor\nFully furnished\nContact: 98000 00002",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        property_type: "apartment",
+        bedrooms: 3,
+        price_numeric: 24000000,
+        area_sqft: 1150,
+        floor_number: 12,
+        total_floors: 20,
+        furnishing: "furnished",
+        contact_info: "9800000002",
+      },
+    ],
+  },
+  {
+    id: "lease-office-bkc",
+    text: "Office space on lease at BKC\n2500 sq ft, fully furnished, 40 workstations\nRent 3.5 lakh per month\n3 car parks\nBroker: 9800000003",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "lease",
+        property_type: "office",
+        price_numeric: 350000,
+        area_sqft: 2500,
+        furnishing: "furnished",
+        parking: true,
+        parking_count: 3,
+        contact_info: "9800000003",
+      },
+    ],
+  },
+  {
+    id: "sale-shop-malad",
+    text: "Shop for sale in Malad West\nLocation: S V Road, near station\n450 sqft, ground floor\nPrice 1.1 Cr\n9800000004",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        property_type: "shop",
+        price_numeric: 11000000,
+        area_sqft: 450,
+        floor_number: 0,
+        location: "S V Road",
+        contact_info: "9800000004",
+      },
+    ],
+  },
+  {
+    id: "rent-1rk-dadar",
+    text: "1 RK available for rent at Dadar East\nRent 18000/month, deposit 1 lakh\nUnfurnished, no parking\nBachelors allowed\nCall 9800000005",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "rental",
+        price_numeric: 18000,
+        furnishing: "unfurnished",
+        parking: false,
+        location: "Dadar East",
+        contact_info: "9800000005",
+      },
+    ],
+  },
+  {
+    id: "sale-rent-dual-thane",
+    text: "2 BHK in Thane West, Hiranandani Estate\nSale: 1.35 Cr\nRent: 38k\n980 sqft carpet, 15th floor\nContact 9800000006",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        bedrooms: 2,
+        price_numeric: 13500000,
+        area_sqft: 980,
+        floor_number: 15,
+      },
+      {
+        listing_type: "rental",
+        bedrooms: 2,
+        price_numeric: 38000,
+        area_sqft: 980,
+        floor_number: 15,
+      },
+    ],
+  },
+  {
+    id: "sale-plot-panvel",
+    text: "NA plot for sale near Panvel\n2000 sq ft, clear title\nRate 45 lakh\nContact 9800000007",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        property_type: "land",
+        price_numeric: 4500000,
+        area_sqft: 2000,
+        contact_info: "9800000007",
+      },
+    ],
+  },
+  {
+    id: "rent-villa-baner",
+    text: "4 BHK independent villa for rent in Baner, Pune\nPrivate garden, 2 car parking\nRent ₹1,20,000 per month\nAvailable from 1st Dec\n9800000008",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "rental",
+        property_type: "villa",
+        bedrooms: 4,
+        price_numeric: 120000,
+        parking: true,
+        parking_count: 2,
+        location: "Baner",
+        contact_info: "9800000008",
+      },
+    ],
+  },
+  {
+    id: "sale-resale-kharghar",
+    text: "Resale 1 BHK, Sector 20 Kharghar\n650 sqft\n5th floor, lift, society pool\n72 lakhs\nDirect owner 9800000009",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        property_type: "apartment",
+        bedrooms: 1,
+        price_numeric: 7200000,
+        area_sqft: 650,
+        floor_number: 5,
+        contact_info: "9800000009",
+      },
+    ],
+  },
+  {
+    id: "rent-koramangala-short",
+    text: "3bhk Koramangala 5th block rent 75k, 1600 sqft, 9800000010",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "rental",
+        bedrooms: 3,
+        price_numeric: 75000,
+        area_sqft: 1600,
+        contact_info: "9800000010",
+      },
+    ],
+  },
+  {
+    id: "leave-licence-bandra",
+    text: "Leave and licence: 2 BHK at Bandra West, Pali Hill\n1000 sq.ft, 6th floor\nRent 1.1 lakh\nFurnished\n98000 00011",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "lease",
+        bedrooms: 2,
+        price_numeric: 110000,
+        area_sqft: 1000,
+        floor_number: 6,
+        furnishing: "furnished",
+        contact_info: "9800000011",
+      },
+    ],
+  },
+  {
+    id: "sale-warehouse-bhiwandi",
+    text: "Warehouse for sale, Bhiwandi\n10000 sq ft, 30 ft height\nAsking 4.5 Cr\nCall 9800000012",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        property_type: "warehouse",
+        price_numeric: 45000000,
+        area_sqft: 10000,
+        contact_info: "9800000012",
+      },
+    ],
+  },
+  // Offers worded like requirements
+  {
+    id: "offer-want-to-sell-powai",
+    text: "Owner want to sell 2BHK flat in Powai, 1.2 Cr",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [{ listing_type: "sale", bedrooms: 2, price_numeric: 12000000 }],
+  },
+  {
+    id: "offer-need-buyer-chembur",
+    text: "Urgent sale! Need genuine buyer for 2 BHK in Chembur, 95 lakh, call 9800000020",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        bedrooms: 2,
+        price_numeric: 9500000,
+        contact_info: "9800000020",
+      },
+    ],
+  },
+  {
+    id: "offer-tenant-required-thane",
+    text: "2BHK for rent in Thane, tenant required",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [{ listing_type: "rental", bedrooms: 2 }],
+  },
+  {
+    id: "offer-want-tenant-vashi",
+    text: "Want a tenant for 1 BHK in Vashi sector 17, rent 22k per month, call 9800000021",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "rental",
+        bedrooms: 1,
+        price_numeric: 22000,
+        contact_info: "9800000021",
+      },
+    ],
+  },
+  {
+    id: "offer-buyer-required-wadala",
+    text: "3 BHK flat in Wadala, 1100 sqft, 2.1 Cr. Buyer required urgently, owner 9800000022",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        bedrooms: 3,
+        price_numeric: 21000000,
+        area_sqft: 1100,
+        contact_info: "9800000022",
+      },
+    ],
+  },
+  // Other languages
+  {
+    id: "hi-rent-andheri",
+    text: "अंधेरी वेस्ट में 2 बीएचके फ्लैट किराये पर उपलब्ध\nकिराया: ₹45,000 प्रति माह\nडिपॉजिट 2 लाख\nसंपर्क 9800000013",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "rental",
+        price_numeric: 45000,
+        contact_info: "9800000013",
+      },
+    ],
+  },
+  {
+    id: "mr-sale-thane",
+    text: "विक्रीसाठी २ बीएचके सदनिका, ठाणे पश्चिम\nकिंमत ८५ लाख\nकार्पेट ६५० चौरस फूट\n५ वा मजला\nसंपर्क: ९८००००००१४",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [{ listing_type: "sale", price_numeric: 8500000 }],
+  },
+  {
+    id: "gu-sale-satellite",
+    text: "વેચાણ માટે 3 બીએચકે ફ્લેટ, સેટેલાઇટ\nકિંમત ૯૫ લાખ\n૧૨૦૦ ચોરસ ફૂટ\n૭ મો માળ\nસંપર્ક ૯૮૦૦૦૦૦૦૧૫",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [{ listing_type: "sale", price_numeric: 9500000 }],
+  },
+  {
+    id: "hinglish-rent-andheri",
+    text: "2 bhk flat kiraye pe dena hai Andheri West mein\nKiraya 45k per month\ndeposit 2 lakh\nContact 9800000016",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "rental",
+        bedrooms: 2,
+        price_numeric: 45000,
+        contact_info: "9800000016",
+      },
+    ],
+  },
+  {
+    id: "hinglish-sale-mira-road",
+    text: "1 bhk bechna hai Mira Road station ke paas\n58 lakh final\n610 sqft, 3rd floor\nCall 9800000017",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [
+      {
+        listing_type: "sale",
+        bedrooms: 1,
+        price_numeric: 5800000,
+        area_sqft: 610,
+        floor_number: 3,
+        contact_info: "9800000017",
+      },
+    ],
+  },
+  {
+    id: "hinglish-rent-short",
+    text: "2 bhk flat kiraye pe",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [{ listing_type: "rental", bedrooms: 2 }],
+  },
+  {
+    id: "hinglish-sale-powai",
+    text: "Powai mein 2bhk bechna hai 1.5 cr",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [{ listing_type: "sale", bedrooms: 2, price_numeric: 15000000 }],
+  },
+  {
+    id: "hinglish-shop-dadar",
+    text: "Dukaan kiraye pe deni hai Dadar 50 hazar",
+    filter: { isPropertyListing: true, intent: "offer" },
+    parsed: [{ listing_type: "rental", price_numeric: 50000 }],
+  },
+  // Requirements
+  {
+    id: "req-andheri-2bhk",
+    text: "Required 2BHK in Andheri West, budget 60k, family only",
+    filter: { isPropertyListing: true, intent: "requirement" },
+  },
+  {
+    id: "req-office-bkc",
+    text: "Looking for 1500 sqft furnished office in BKC for a client, budget 2.5 lakh per month. Brokers call 9800000018",
+    filter: { isPropertyListing: true, intent: "requirement" },
+  },
+  {
+    id: "req-hinglish-flat",
+    text: "Powai mein 3 bhk chahiye, budget 1 lakh tak",
+    filter: { isPropertyListing: true, intent: "requirement" },
+  },
+  {
+    id: "req-client-powai",
+    text: "Client looking for 3 bhk in Powai or Chandivali budget upto 2 cr",
+    filter: { isPropertyListing: true, intent: "requirement" },
+  },
+  {
+    id: "req-shop-dadar",
+    text: "Need shop on rent in Dadar",
+    filter: { isPropertyListing: true, intent: "requirement" },
+  },
+  {
+    id: "req-buy-thane",
+    text: "Need 2 BHK for purchase in Thane, budget 1.2 Cr, ready possession only",
+    filter: { isPropertyListing: true, intent: "requirement" },
+  },
+  // Not listings
+  {
+    id: "chat-greeting",
+    text: "Good morning all 🙏",
+    filter: { isPropertyListing: false },
+  },
+  {
+    id: "chat-festival",
+    text: "Happy Diwali to all members and your families! 🪔",
+    filter: { isPropertyListing: false },
+  },
+  {
+    id: "chat-thanks",
+    text: "Thanks, deal closed",
+    filter: { isPropertyListing: false },
+  },
+  {
+    id: "chat-still-available",
+    text: "Is this still available?",
+    filter: { isPropertyListing: false },
+  },
+  {
+    id: "chat-meeting",
+    text: "Builders meet tomorrow at 5 pm at the club house. Please confirm attendance.",
+    filter: { isPropertyListing: false },
+  },
+  {
+    id: "spam-loan",
+    text: "Home loan at 8.4% from top banks, instant approval. DM for details",
+    filter: { isPropertyListing: false },
+  },
+  {
+    id: "chat-rules",
+    text: "Group rules: only property posts, no forwards, no political messages. Admin",
+    filter: { isPropertyListing: false },
+  },
+  {
+    id: "chat-hindi-greeting",
+    text: "सभी को सुप्रभात 🙏",
+    filter: { isPropertyListing: false },
+  },
+  {
+    id: "chat-market-news",
+    text: "RBI keeps repo rate unchanged at 6.5%, good news for home buyers",
+    filter: { isPropertyListing: false },
+  },
+];
@@ -0,0 +1,257 @@
+import {
+  ListingParser,
+  ParsedRealEstateData,
+} from "../services/listing-parser";
+import { createListingParser } from "../services/parser-factory";
+import { RuleBasedListingParser } from "../services/rule-based-parser";
+import { PropertyMessageFilter } from "../utils/property-filter";
+import { EVAL_CORPUS, EvalCase } from "./corpus";
+
+/**
+ * Scores PropertyMessageFilter and a listing parser against the labeled
+ * corpus. Run with `npm test` (offline rule-based parser) or
+ * `npm run eval -- --parser=env` to score the parser configured by
+ * LLM_PROVIDER.
+ */
+
+// The run fails below these, so regressions show up in CI
+const MIN_FILTER_PRECISION = 0.9;
+const MIN_FILTER_RECALL = 0.9;
+const MIN_INTENT_ACCURACY = 0.9;
+const MIN_PARSER_ACCURACY = 0.8;
+// Fields search and alerts depend on, checked on their own so a strong
+// average elsewhere cannot hide a regression. The rules parser still reads
+// only one property from sale-rent-dual-thane, which these allow for.
+const MIN_FIELD_ACCURACY: Partial<Record<keyof ParsedRealEstateData, number>> =
+  {
+    listing_type: 0.9,
+    price_numeric: 0.9,
+  };
+
+// Prices within 1% count as a match ("2.4 Cr" vs 24000000)
+const PRICE_TOLERANCE = 0.01;
+
+export interface FilterReport {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number;
+  recall: number;
+  intentAccuracy: number;
+  mistakes: { id: string; expected: string; actual: string; reason: string }[];
+}
+
+export interface FieldScore {
+  correct: number;
+  total: number;
+  accuracy: number;
+}
+
+export interface ParserReport {
+  fields: Record<string, FieldScore>;
+  accuracy: number;
+  mistakes: { id: string; field: string; expected: any; actual: any }[];
+}
+
+export function evaluateFilter(cases: EvalCase[] = EVAL_CORPUS): FilterReport {
+  const report: FilterReport = {
+    truePositives: 0,
+    falsePositives: 0,
+    falseNegatives: 0,
+    trueNegatives: 0,
+    precision: 0,
+    recall: 0,
+    intentAccuracy: 0,
+    mistakes: [],
+  };
+  let intentCorrect = 0;
+  let intentTotal = 0;
+
+  for (const evalCase of cases) {
+    const result = PropertyMessageFilter.filterMessage(evalCase.text);
+    const expected = evalCase.filter.isPropertyListing;
+
+    if (expected && result.isPropertyListing) report.truePositives++;
+    if (!expected && result.isPropertyListing) report.falsePositives++;
+    if (expected && !result.isPropertyListing) report.falseNegatives++;
+    if (!expected && !result.isPropertyListing) report.trueNegatives++;
+
+    if (expected !== result.isPropertyListing) {
+      report.mistakes.push({
+        id: evalCase.id,
+        expected: expected ? "listing" : "not a listing",
+        actual: `${
+          result.isPropertyListing ? "listing" : "not a listing"
+        } (${Math.round(result.confidence * 100)}%)`,
+        reason: result.reason,
+      });
+    } else if (expected && evalCase.filter.intent) {
+      intentTotal++;
+      if (result.intent === evalCase.filter.intent) {
+        intentCorrect++;
+      } else {
+        report.mistakes.push({
+          id: evalCase.id,
+          expected: evalCase.filter.intent,
+          actual: result.intent,
+          reason: result.reason,
+        });
+      }
+    }
+  }
+
+  report.precision = ratio(
+    report.truePositives,
+    report.truePositives + report.falsePositives
+  );
+  report.recall = ratio(
+    report.truePositives,
+    report.truePositives + report.falseNegatives
+  );
+  report.intentAccuracy = ratio(intentCorrect, intentTotal);
+  return report;
+}
+
+/**
+ * Per-field accuracy over the cases with expected parser output. A missing
+ * property counts as a miss for every field expected on it.
+ */
+export async function evaluateParser(
+  parser: ListingParser,
+  cases: EvalCase[] = EVAL_CORPUS
+): Promise<ParserReport> {
+  const labeled = cases.filter((evalCase) => evalCase.parsed);
+  const results = await parser.parseRealEstateMessagesBatch(
+    labeled.map((evalCase) => evalCase.text)
+  );
+
+  const fields: Record<string, FieldScore> = {};
+  const mistakes: ParserReport["mistakes"] = [];
+  let correct = 0;
+  let total = 0;
+
+  labeled.forEach((evalCase, caseIndex) => {
+    const actualProperties = results[caseIndex]?.properties || [];
+
+    evalCase.parsed!.forEach((expectedProperty, propertyIndex) => {
+      const actualProperty: Partial<ParsedRealEstateData> =
+        actualProperties[propertyIndex] || {};
+
+      for (const field of Object.keys(
+        expectedProperty
+      ) as (keyof ParsedRealEstateData)[]) {
+        const expected = expectedProperty[field];
+        const actual = actualProperty[field];
+        const score = (fields[field] ||= { correct: 0, total: 0, accuracy: 0 });
+        score.total++;
+        total++;
+
+        if (fieldMatches(field, expected, actual)) {
+          score.correct++;
+          correct++;
+        } else {
+          mistakes.push({ id: evalCase.id, field, expected, actual });
+        }
+      }
+    });
+  });
+
+  Object.values(fields).forEach((score) => {
+    score.accuracy = ratio(score.correct, score.total);
+  });
+
+  return { fields, accuracy: ratio(correct, total), mistakes };
+}
+
+function fieldMatches(
+  field: keyof ParsedRealEstateData,
+  expected: any,
+  actual: any
+): boolean {
+  if (actual === undefined || actual === null) return false;
+
+  switch (field) {
+    case "price_numeric":
+      return Math.abs(actual - expected) <= expected * PRICE_TOLERANCE;
+    case "contact_info":
+      return String(actual).replace(/\D/g, "").includes(expected);
+    case "location":
+    case "area_name":
+    case "property_name":
+      return String(actual).toLowerCase().includes(expected.toLowerCase());
+    default:
+      return actual === expected;
+  }
+}
+
+function ratio(part: number, whole: number): number {
+  return whole === 0 ? 1 : part / whole;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+async function main() {
+  const parserArg = process.argv
+    .find((arg) => arg.startsWith("--parser="))
+    ?.split("=")[1];
+  const parser =
+    parserArg === "env" ? createListingParser() : new RuleBasedListingParser();
+
+  const filter = evaluateFilter();
+  console.log(`Filter (${EVAL_CORPUS.length} messages)`);
+  console.log(
+    `  precision ${percent(filter.precision)}, recall ${percent(
+      filter.recall
+    )}, intent accuracy ${percent(filter.intentAccuracy)}`
+  );
+  console.log(
+    `  TP ${filter.truePositives}, FP ${filter.falsePositives}, FN ${filter.falseNegatives}, TN ${filter.trueNegatives}`
+  );
+  filter.mistakes.forEach((mistake) =>
+    console.log(
+      `  ✗ ${mistake.id}: expected ${mistake.expected}, got ${mistake.actual} - ${mistake.reason}`
+    )
+  );
+
+  const parsing = await evaluateParser(parser);
+  console.log(`\nParser (${parser.provider}/${parser.model})`);
+  console.log(`  overall field accuracy ${percent(parsing.accuracy)}`);
+  Object.entries(parsing.fields).forEach(([field, score]) =>
+    console.log(
+      `  ${field.padEnd(16)} ${percent(score.accuracy).padStart(6)} (${
+        score.correct
+      }/${score.total})`
+    )
+  );
+  parsing.mistakes.forEach((mistake) =>
+    console.log(
+      `  ✗ ${mistake.id}.${mistake.field}: expected ${JSON.stringify(
+        mistake.expected
+      )}, got ${JSON.stringify(mistake.actual)}`
+    )
+  );
+
+  const failures = [
+    filter.precision < MIN_FILTER_PRECISION && "filter precision",
+    filter.recall < MIN_FILTER_RECALL && "filter recall",
+    filter.intentAccuracy < MIN_INTENT_ACCURACY && "intent accuracy",
+    parsing.accuracy < MIN_PARSER_ACCURACY && "parser accuracy",
+    ...Object.entries(MIN_FIELD_ACCURACY).map(
+      ([field, minimum]) =>
+        (parsing.fields[field]?.accuracy ?? 1) < minimum! && `${field} accuracy`
+    ),
+  ].filter(Boolean);
+
+  if (failures.length > 0) {
+    console.error(`\nBelow minimum: ${failures.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
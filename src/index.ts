@@ -4,10 +4,21 @@ import express from "express";
 import logger from "./lib/logger";
 import pinoHttp from "pino-http";
 import { errorHandler } from "./middlewares/error-handler";
+import { jwtMiddleware } from "./middlewares/jwt";
+import alertsRouter from "./routes/alerts";
+import eventsRouter from "./routes/events";
+import filterProfilesRouter from "./routes/filter-profiles";
 import messagesRouter from "./routes/messages";
 import parsingJobRouter from "./routes/parsing-job";
+import propertiesRouter from "./routes/properties";
+import quarantineRouter from "./routes/quarantine";
+import requirementsRouter from "./routes/requirements";
+import savedSearchesRouter from "./routes/saved-searches";
+import webhooksRouter from "./routes/webhooks";
 import whatsappRouter from "./routes/whatsapp";
+import { quarantineService } from "./services/quarantine-service";
 import { RealEstateParsingJob } from "./services/real-estate-job";
+import { webhookService } from "./services/webhook-service";
 import { WhatsAppServiceManager } from "./services/whatsapp-service-manager";
 
 // Load environment variables
@@ -56,7 +67,11 @@ app.use(
     },
     serializers: {
       req(req) {
-        return { method: req.method, url: req.url };
+        // The event stream takes its token in the query string
+        return {
+          method: req.method,
+          url: req.url.replace(/([?&]access_token=)[^&]*/, "$1[redacted]"),
+        };
       },
       res(res) {
         return { statusCode: res.statusCode };
@@ -74,13 +89,24 @@ const whatsappServiceManager = new WhatsAppServiceManager();
 // Make the service manager available to routes via app.locals
 app.locals.whatsappServiceManager = whatsappServiceManager;
 
+// Turn bus events into webhook deliveries
+webhookService.subscribe();
+
 // API Routes
 app.use("/api/messages", messagesRouter);
 app.use("/api/whatsapp", whatsappRouter);
 app.use("/api/parsing-job", parsingJobRouter);
+app.use("/api/requirements", requirementsRouter);
+app.use("/api/properties", propertiesRouter);
+app.use("/api/saved-searches", savedSearchesRouter);
+app.use("/api/filter-profiles", filterProfilesRouter);
+app.use("/api/quarantine", quarantineRouter);
+app.use("/api/alerts", alertsRouter);
+app.use("/api/webhooks", webhooksRouter);
+app.use("/api/events", eventsRouter);
 
 // Admin endpoint to view all WhatsApp services status (for debugging)
-app.get("/admin/whatsapp-services", (req, res) => {
+app.get("/admin/whatsapp-services", jwtMiddleware, (req, res) => {
   try {
     const allStatuses = whatsappServiceManager.getAllServicesStatus();
     const serviceCount = Object.keys(allStatuses).length;
@@ -120,6 +146,21 @@ app.listen(PORT, async () => {
     "Users can connect their WhatsApp via POST /api/whatsapp/connect"
   );
 
+  // Reconnect every linked WhatsApp session that isn't paused
+  whatsappServiceManager
+    .restoreSessions({
+      concurrency: Number(process.env.WHATSAPP_RESTORE_CONCURRENCY) || 3,
+      staggerMs: Number(process.env.WHATSAPP_RESTORE_STAGGER_MS) || 2000,
+    })
+    .catch((error) => {
+      logger.error(
+        {
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to restore WhatsApp sessions"
+      );
+    });
+
   // Auto-start the parsing job when server starts
   try {
     const parsingJob = new RealEstateParsingJob(logger);
@@ -139,6 +180,12 @@ app.listen(PORT, async () => {
     );
   }
 
+  // Retry failed webhook deliveries in the background
+  webhookService.startDispatcher();
+
+  // Drop filtered-out messages past the quarantine retention window
+  quarantineService.startRetentionSweep();
+
   // Self-ping mechanism to prevent Render.com sleeping (only in production)
   if (process.env.NODE_ENV === "production" && process.env.RENDER_SERVICE_URL) {
     const PING_INTERVAL = 14 * 60 * 1000; // 14 minutes (before 15-min sleep threshold)
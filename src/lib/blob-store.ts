@@ -0,0 +1,116 @@
+import fs from "fs/promises";
+import path from "path";
+import { supabaseAdmin } from "./supabase";
+
+/**
+ * Minimal storage abstraction for binary media (images, videos, documents).
+ * Attachments record the driver they were written with, so files stay
+ * readable after the default driver is changed.
+ */
+export interface BlobStore {
+  readonly driver: string;
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores files on the local filesystem (default, good for development)
+export class LocalBlobStore implements BlobStore {
+  readonly driver = "local";
+  private rootDir: string;
+
+  constructor(rootDir = process.env.MEDIA_STORAGE_DIR || "media") {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+// Stores files in a Supabase Storage bucket (survives redeploys on Render)
+export class SupabaseBlobStore implements BlobStore {
+  readonly driver = "supabase";
+  private bucket: string;
+
+  constructor(bucket = process.env.MEDIA_STORAGE_BUCKET || "whatsapp-media") {
+    this.bucket = bucket;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    const { error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .upload(key, data, { contentType, upsert: true });
+
+    if (error) {
+      throw new Error(`Failed to upload blob: ${error.message}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const { data, error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .download(key);
+
+    if (error || !data) {
+      throw new Error(`Failed to download blob: ${error?.message}`);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await supabaseAdmin.storage
+      .from(this.bucket)
+      .remove([key]);
+
+    if (error) {
+      throw new Error(`Failed to delete blob: ${error.message}`);
+    }
+  }
+}
+
+const stores = new Map<string, BlobStore>();
+
+/**
+ * Get the blob store for a driver, defaulting to MEDIA_STORAGE_DRIVER
+ */
+export function getBlobStore(
+  driver = process.env.MEDIA_STORAGE_DRIVER || "local"
+): BlobStore {
+  let store = stores.get(driver);
+
+  if (!store) {
+    switch (driver) {
+      case "local":
+        store = new LocalBlobStore();
+        break;
+      case "supabase":
+        store = new SupabaseBlobStore();
+        break;
+      default:
+        throw new Error(`Unknown media storage driver: ${driver}`);
+    }
+    stores.set(driver, store);
+  }
+
+  return store;
+}
@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import logger from "./logger";
+
+export type AppEventType =
+  | "whatsapp.qr"
+  | "whatsapp.connection"
+  | "whatsapp.connected"
+  | "whatsapp.logged_out"
+  | "message.stored"
+  | "message.edited"
+  | "message.deleted"
+  | "property.parsed"
+  | "property.updated";
+
+export interface AppEvent<T = any> {
+  id: string;
+  type: AppEventType;
+  user_id: string;
+  created_at: string;
+  data: T;
+}
+
+export type AppEventListener = (event: AppEvent) => void;
+
+/**
+ * In-process pub/sub for per-user events. WhatsAppService and the parsing job
+ * publish; SSE streams and webhooks subscribe.
+ */
+export class EventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE stream, so no fixed limit
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish<T>(userId: string, type: AppEventType, data: T): AppEvent<T> {
+    const event: AppEvent<T> = {
+      id: crypto.randomUUID(),
+      type,
+      user_id: userId,
+      created_at: new Date().toISOString(),
+      data,
+    };
+
+    this.emitter.emit("event", event);
+    return event;
+  }
+
+  /**
+   * Returns a function that removes the listener
+   */
+  subscribe(listener: AppEventListener): () => void {
+    // A failing subscriber must not break the publisher or other subscribers
+    const safeListener = (event: AppEvent) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error(
+          {
+            eventType: event.type,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "Event listener failed"
+        );
+      }
+    };
+
+    this.emitter.on("event", safeListener);
+    return () => {
+      this.emitter.off("event", safeListener);
+    };
+  }
+}
+
+export const eventBus = new EventBus();
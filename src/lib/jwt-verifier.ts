@@ -0,0 +1,220 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import jwt from "jsonwebtoken";
+import { NotAuthorizedError } from "../errors/not-authorized-error";
+import type { UserJwt } from "../middlewares/jwt";
+import logger from "./logger";
+
+dotenv.config();
+
+const ASYMMETRIC_ALGORITHMS: jwt.Algorithm[] = ["RS256", "ES256"];
+// Signing keys rotate rarely; refetch at most this often for an unknown kid
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 30 * 1000;
+const JWKS_FETCH_TIMEOUT_MS = 5 * 1000;
+
+interface VerifierConfig {
+  secret?: string;
+  jwksUrl?: string;
+  audience: string;
+  issuer?: string;
+}
+
+/**
+ * Verifies Supabase access tokens: HS256 with the project's JWT secret, or
+ * RS256/ES256 with the project's signing keys from its JWKS document.
+ */
+export class SupabaseJwtVerifier {
+  private config: VerifierConfig;
+  private keys = new Map<string, crypto.KeyObject>();
+  private keysFetchedAt = 0;
+  private pendingFetch: Promise<void> | null = null;
+
+  constructor(config?: Partial<VerifierConfig>) {
+    const supabaseUrl = process.env.SUPABASE_URL?.replace(/\/+$/, "");
+
+    this.config = {
+      secret: process.env.SUPABASE_JWT_SECRET || undefined,
+      jwksUrl:
+        process.env.SUPABASE_JWKS_URL ||
+        (supabaseUrl
+          ? `${supabaseUrl}/auth/v1/.well-known/jwks.json`
+          : undefined),
+      audience: process.env.SUPABASE_JWT_AUDIENCE || "authenticated",
+      issuer:
+        process.env.SUPABASE_JWT_ISSUER ||
+        (supabaseUrl ? `${supabaseUrl}/auth/v1` : undefined),
+      ...config,
+    };
+  }
+
+  /**
+   * Verify signature, expiry, audience and issuer. Throws NotAuthorizedError
+   * with a code saying what was wrong with the token.
+   */
+  async verify(token: string): Promise<UserJwt> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new NotAuthorizedError("Malformed token", "malformed_token");
+    }
+
+    const { alg, kid } = decoded.header;
+    let key: jwt.Secret;
+    let algorithms: jwt.Algorithm[];
+
+    if (alg === "HS256") {
+      if (!this.config.secret) {
+        throw new NotAuthorizedError(
+          "HS256 tokens are not accepted",
+          "invalid_signature"
+        );
+      }
+      key = this.config.secret;
+      algorithms = ["HS256"];
+    } else if (ASYMMETRIC_ALGORITHMS.includes(alg as jwt.Algorithm)) {
+      if (!this.config.jwksUrl) {
+        throw new NotAuthorizedError(
+          `${alg} tokens are not accepted`,
+          "invalid_signature"
+        );
+      }
+      if (!kid) {
+        throw new NotAuthorizedError("Token has no key id", "malformed_token");
+      }
+      key = await this.getSigningKey(kid);
+      algorithms = ASYMMETRIC_ALGORITHMS;
+    } else {
+      throw new NotAuthorizedError(
+        `Unsupported token algorithm: ${alg}`,
+        "invalid_signature"
+      );
+    }
+
+    let payload: UserJwt;
+    try {
+      payload = jwt.verify(token, key, {
+        algorithms,
+        audience: this.config.audience,
+        issuer: this.config.issuer,
+      }) as UserJwt;
+    } catch (error) {
+      throw this.toNotAuthorizedError(error);
+    }
+
+    if (!payload.sub) {
+      throw new NotAuthorizedError("Token has no subject", "invalid_claims");
+    }
+
+    return payload;
+  }
+
+  private toNotAuthorizedError(error: unknown): NotAuthorizedError {
+    if (error instanceof jwt.TokenExpiredError) {
+      return new NotAuthorizedError("Token has expired", "token_expired");
+    }
+    if (error instanceof jwt.NotBeforeError) {
+      return new NotAuthorizedError(
+        "Token is not active yet",
+        "token_not_active"
+      );
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      if (/signature|algorithm/i.test(error.message)) {
+        return new NotAuthorizedError(
+          "Invalid token signature",
+          "invalid_signature"
+        );
+      }
+      if (/audience|issuer|subject|jwtid/i.test(error.message)) {
+        return new NotAuthorizedError(error.message, "invalid_claims");
+      }
+      return new NotAuthorizedError("Malformed token", "malformed_token");
+    }
+    return new NotAuthorizedError("Invalid token");
+  }
+
+  private async getSigningKey(kid: string): Promise<crypto.KeyObject> {
+    const isStale = Date.now() - this.keysFetchedAt > JWKS_CACHE_TTL_MS;
+    // Unknown kid usually means the keys were rotated, but don't let forged
+    // tokens make us hammer the JWKS endpoint
+    const mayRefresh = Date.now() - this.keysFetchedAt > JWKS_MIN_REFRESH_MS;
+
+    if (isStale || (!this.keys.has(kid) && mayRefresh)) {
+      await this.refreshKeys();
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new NotAuthorizedError(
+        "Token signed with an unknown key",
+        "invalid_signature"
+      );
+    }
+    return key;
+  }
+
+  private async refreshKeys(): Promise<void> {
+    if (!this.pendingFetch) {
+      this.pendingFetch = this.fetchKeys().finally(() => {
+        this.pendingFetch = null;
+      });
+    }
+    return this.pendingFetch;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    if (!this.config.jwksUrl) {
+      throw new NotAuthorizedError(
+        "Cannot verify asymmetric tokens: SUPABASE_URL or SUPABASE_JWKS_URL is not set",
+        "invalid_signature"
+      );
+    }
+
+    try {
+      const response = await fetch(this.config.jwksUrl, {
+        signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const { keys = [] } = (await response.json()) as {
+        keys?: (crypto.JsonWebKey & { kid?: string })[];
+      };
+
+      const nextKeys = new Map<string, crypto.KeyObject>();
+      for (const jwk of keys) {
+        if (!jwk.kid) continue;
+        try {
+          nextKeys.set(
+            jwk.kid,
+            crypto.createPublicKey({ key: jwk, format: "jwk" })
+          );
+        } catch (error) {
+          logger.warn(
+            {
+              kid: jwk.kid,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            "Skipping unusable JWKS key"
+          );
+        }
+      }
+
+      this.keys = nextKeys;
+    } catch (error) {
+      // Keep the cached keys; verification still works for known kids
+      logger.error(
+        {
+          jwksUrl: this.config.jwksUrl,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to fetch JWKS"
+      );
+    } finally {
+      this.keysFetchedAt = Date.now();
+    }
+  }
+}
+
+export const supabaseJwtVerifier = new SupabaseJwtVerifier();
@@ -59,6 +59,12 @@ export interface WhatsAppMessage {
   message_text?: string;
   message_meta: any;
   message_hash?: string;
+  message_intent?: "offer" | "requirement";
+  wa_message_id?: string;
+  quoted_wa_message_id?: string | null;
+  quoted_participant?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   created_at?: string;
 }
 
@@ -89,3 +95,18 @@ export interface WhatsAppAuthKeys {
   created_at?: string;
   updated_at?: string;
 }
+
+export interface WhatsAppMessageAttachment {
+  id?: string;
+  message_id: string;
+  user_id: string;
+  media_type: "image" | "video" | "document";
+  mime_type?: string | null;
+  file_name?: string | null;
+  file_size?: number | null;
+  caption?: string | null;
+  storage_driver: string;
+  storage_key: string;
+  sha256: string;
+  created_at?: string;
+}
@@ -12,6 +12,7 @@ export function errorHandler(
   if (err.name === "NotAuthorizedError") {
     res.status(401).json({
       error: "Not authorized",
+      code: err.code,
       message: err.message,
     });
     return;
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import { NotAuthorizedError } from "../errors/not-authorized-error";
+import { supabaseJwtVerifier } from "../lib/jwt-verifier";
 
 export interface UserJwt {
   iss: string;
@@ -50,48 +50,79 @@ declare global {
   }
 }
 
-export function jwtMiddleware(req: Request, res: Response, next: NextFunction) {
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith("Bearer "))
-      throw new NotAuthorizedError("No token provided");
-
-    const token = authHeader.split(" ")[1];
+/**
+ * Verifies the Supabase access token in the Authorization header and sets
+ * req.user. Failures reach the error handler as a 401 with a reason code.
+ */
+export async function jwtMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return next(new NotAuthorizedError("No token provided", "missing_token"));
+  }
 
-    // For Supabase JWT tokens, we can decode without verification
-    // In production, you might want to verify the signature using the JWT secret
-    const decoded = jwt.decode(token);
+  await authenticate(req, authHeader.slice("Bearer ".length).trim(), next);
+}
 
-    if (!decoded) throw new NotAuthorizedError("Invalid token");
+// Query strings end up in browser history and proxy logs, so only tokens
+// that expire soon are accepted there
+const MAX_QUERY_TOKEN_LIFETIME_SECONDS = 60 * 60;
 
-    req.user = decoded as UserJwt;
-    next();
-  } catch (error) {
-    console.error("JWT Middleware Error:", error);
-    next(error);
+/**
+ * jwtMiddleware for streams opened by a browser EventSource, which cannot
+ * set headers: the access token may also be passed as ?access_token=. The
+ * request logger redacts the parameter. Use it on such routes only.
+ */
+export async function jwtQueryMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const queryToken = req.query.access_token;
+  if (!req.headers.authorization && typeof queryToken === "string") {
+    return authenticate(
+      req,
+      queryToken.trim(),
+      next,
+      MAX_QUERY_TOKEN_LIFETIME_SECONDS
+    );
   }
+  return jwtMiddleware(req, res, next);
 }
 
-// Optional: JWT verification middleware if you want to verify signatures
-export function jwtVerifyMiddleware(secret: string) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    try {
-      const authHeader = req.headers.authorization;
-      if (!authHeader || !authHeader.startsWith("Bearer "))
-        throw new NotAuthorizedError("No token provided");
-
-      const token = authHeader.split(" ")[1];
+async function authenticate(
+  req: Request,
+  token: string,
+  next: NextFunction,
+  maxLifetimeSeconds?: number
+) {
+  if (!token) {
+    return next(new NotAuthorizedError("No token provided", "missing_token"));
+  }
 
-      // Verify the token signature
-      const decoded = jwt.verify(token, secret);
+  let user: UserJwt;
+  try {
+    user = await supabaseJwtVerifier.verify(token);
+  } catch (error) {
+    return next(error);
+  }
 
-      if (!decoded) throw new NotAuthorizedError("Invalid token");
+  if (
+    maxLifetimeSeconds !== undefined &&
+    !(user.exp - user.iat <= maxLifetimeSeconds)
+  ) {
+    return next(
+      new NotAuthorizedError(
+        "Token lives too long to be passed in the URL",
+        "invalid_claims"
+      )
+    );
+  }
 
-      req.user = decoded as UserJwt;
-      next();
-    } catch (error) {
-      console.error("JWT Verify Middleware Error:", error);
-      next(error);
-    }
-  };
+  // Outside the try: an error thrown downstream must not reach next() again
+  req.user = user;
+  next();
 }
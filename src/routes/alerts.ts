@@ -0,0 +1,118 @@
+import express from "express";
+import { jwtMiddleware } from "../middlewares/jwt";
+import { SavedSearchService } from "../services/saved-search-service";
+
+const router = express.Router();
+const savedSearches = new SavedSearchService();
+
+// Apply JWT middleware to all routes
+router.use(jwtMiddleware);
+
+// GET /api/alerts - New listings that matched the user's saved searches
+router.get("/", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { unread_only, limit = 50, offset = 0 } = req.query;
+
+    const [alerts, unreadCount] = await Promise.all([
+      savedSearches.listAlerts(userId, {
+        unreadOnly: unread_only === "true",
+        limit: Number(limit),
+        offset: Number(offset),
+      }),
+      savedSearches.countUnreadAlerts(userId),
+    ]);
+
+    res.json({
+      status: "success",
+      data: alerts,
+      unread_count: unreadCount,
+      pagination: {
+        limit: Number(limit),
+        offset: Number(offset),
+        count: alerts.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/alerts/read-all - Mark every alert as read
+router.post("/read-all", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const updated = await savedSearches.setAlertsRead(userId, true);
+
+    res.json({
+      status: "success",
+      updated,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/alerts/:id/read - Mark one alert as read
+router.post("/:id/read", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const updated = await savedSearches.setAlertsRead(userId, true, [
+      req.params.id,
+    ]);
+    if (updated === 0) {
+      return res.status(404).json({
+        status: "error",
+        message: "Alert not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      updated,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/alerts/:id/unread - Mark one alert as unread again
+router.post("/:id/unread", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const updated = await savedSearches.setAlertsRead(userId, false, [
+      req.params.id,
+    ]);
+    if (updated === 0) {
+      return res.status(404).json({
+        status: "error",
+        message: "Alert not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      updated,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,61 @@
+import express from "express";
+import { jwtQueryMiddleware } from "../middlewares/jwt";
+import { eventBus } from "../lib/event-bus";
+import { WhatsAppServiceManager } from "../services/whatsapp-service-manager";
+
+const router = express.Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// EventSource cannot send an Authorization header, so the token may also
+// come as ?access_token=
+router.use(jwtQueryMiddleware);
+
+// GET /api/events - Server-Sent Events stream of the user's QR, connection, message and property events
+router.get("/", (req, res) => {
+  const userId = req.user?.sub;
+  if (!userId) {
+    return res.status(401).json({ error: "User not authenticated" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const send = (id: string, type: string, data: unknown) => {
+    res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Start with the current state so clients don't need an extra status call
+  const serviceManager = req.app.locals
+    .whatsappServiceManager as WhatsAppServiceManager;
+  const status = serviceManager
+    .getExistingService(userId)
+    ?.getConnectionStatus();
+  send(
+    "snapshot",
+    "whatsapp.status",
+    status || { isConnected: false, status: "disconnected" }
+  );
+
+  const unsubscribe = eventBus.subscribe((event) => {
+    if (event.user_id === userId) {
+      send(event.id, event.type, event.data);
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(": ping\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
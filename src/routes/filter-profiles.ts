@@ -0,0 +1,202 @@
+import express from "express";
+import { jwtMiddleware } from "../middlewares/jwt";
+import { FilterProfileService } from "../services/filter-profile-service";
+import { PropertyMessageFilter } from "../utils/property-filter";
+
+const router = express.Router();
+const filterProfiles = new FilterProfileService();
+
+// Apply JWT middleware to all routes
+router.use(jwtMiddleware);
+
+// GET /api/filter-profiles - List the user's filter profiles
+router.get("/", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const profiles = await filterProfiles.listProfiles(userId);
+
+    res.json({
+      status: "success",
+      data: profiles,
+      count: profiles.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/filter-profiles - Create a profile (keywords, weights, threshold, required patterns)
+router.post("/", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { name, rules, is_active } = req.body;
+    if (!name || typeof name !== "string") {
+      return res.status(400).json({
+        status: "error",
+        message: "name is required",
+      });
+    }
+
+    const rulesError = FilterProfileService.getRulesError(rules);
+    if (rulesError) {
+      return res.status(400).json({
+        status: "error",
+        message: rulesError,
+      });
+    }
+
+    const profile = await filterProfiles.createProfile(userId, {
+      name,
+      rules: FilterProfileService.sanitizeRules(rules),
+      is_active,
+    });
+
+    res.status(201).json({
+      status: "success",
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/filter-profiles/:id - Get one filter profile
+router.get("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const profile = await filterProfiles.getProfile(userId, req.params.id);
+    if (!profile) {
+      return res.status(404).json({
+        status: "error",
+        message: "Filter profile not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/filter-profiles/:id - Rename, change rules or pause a profile
+router.put("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { name, rules, is_active } = req.body;
+    const rulesError = FilterProfileService.getRulesError(rules);
+    if (rulesError) {
+      return res.status(400).json({
+        status: "error",
+        message: rulesError,
+      });
+    }
+
+    const updates: Parameters<FilterProfileService["updateProfile"]>[2] = {};
+    if (name !== undefined) updates.name = name;
+    if (rules !== undefined) {
+      updates.rules = FilterProfileService.sanitizeRules(rules);
+    }
+    if (is_active !== undefined) updates.is_active = Boolean(is_active);
+
+    const profile = await filterProfiles.updateProfile(
+      userId,
+      req.params.id,
+      updates
+    );
+    if (!profile) {
+      return res.status(404).json({
+        status: "error",
+        message: "Filter profile not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/filter-profiles/:id - Delete a filter profile
+router.delete("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const deleted = await filterProfiles.deleteProfile(userId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        status: "error",
+        message: "Filter profile not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message: "Filter profile deleted",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/filter-profiles/:id/test - Run a text through a profile, with the default filter for comparison
+router.post("/:id/test", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { text } = req.body;
+    if (!text || typeof text !== "string") {
+      return res.status(400).json({
+        status: "error",
+        message: "text is required",
+      });
+    }
+
+    const profile = await filterProfiles.getProfile(userId, req.params.id);
+    if (!profile) {
+      return res.status(404).json({
+        status: "error",
+        message: "Filter profile not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: {
+        profile: PropertyMessageFilter.filterMessage(text, profile.rules || {}),
+        default: PropertyMessageFilter.filterMessage(text),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
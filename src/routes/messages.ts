@@ -4,6 +4,9 @@ import {
   getMessages,
   getMessagesByGroup,
   getGroupsList,
+  getMessageById,
+  getMessageThread,
+  getAttachmentContent,
 } from "../controllers/messages-controller";
 
 const router = express.Router();
@@ -38,4 +41,31 @@ router.get("/groups/:groupName", async (req, res, next) => {
   }
 });
 
+// GET /api/messages/attachments/:attachmentId/content - Download a stored media attachment
+router.get("/attachments/:attachmentId/content", async (req, res, next) => {
+  try {
+    await getAttachmentContent(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/messages/:id/thread - Get the reply chain a message belongs to
+router.get("/:id/thread", async (req, res, next) => {
+  try {
+    await getMessageThread(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/messages/:id - Get a single message with its attachments
+router.get("/:id", async (req, res, next) => {
+  try {
+    await getMessageById(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,10 +1,17 @@
-import express from "express";
+import express, { Request, Response } from "express";
+import { PropertySearchFilters } from "../services/database";
+import { parseBoundingBox, parseGeoPoint } from "../utils/geo";
+import { GEO_EXPORT_FORMATS } from "../utils/geo-export";
 import { RealEstateParsingJob } from "../services/real-estate-job";
 import { jwtMiddleware } from "../middlewares/jwt";
 
 const router = express.Router();
 let parsingJob: RealEstateParsingJob;
 
+const MAX_RADIUS_KM = 50;
+const DEFAULT_MAP_ZOOM = 11;
+const MAX_MAP_ZOOM = 20;
+
 // Initialize the parsing job
 const initializeParsingJob = (logger?: any) => {
   if (!parsingJob) {
@@ -86,107 +93,10 @@ router.post("/process-debug", jwtMiddleware, async (req, res) => {
     const { batchSize = 10, minConfidence = 0.1 } = req.body;
     const job = initializeParsingJob(req.log);
 
-    // Temporarily override the confidence threshold for debugging
-    const originalProcessMethod = job.processUnprocessedMessages.bind(job);
-    job.processUnprocessedMessages = async (batchSize = 10) => {
-      const result = {
-        processed: 0,
-        successful: 0,
-        failed: 0,
-        errors: [] as string[],
-      };
-
-      try {
-        const messages = await job["database"].getUnprocessedMessages(
-          batchSize
-        );
-
-        if (messages.length === 0) {
-          return result;
-        }
-
-        const validMessages = messages.filter(
-          (msg) => msg.message_text && msg.message_text.trim().length > 0
-        );
-
-        if (validMessages.length === 0) {
-          for (const message of messages) {
-            await job["database"].markMessageAsProcessed(message.id);
-          }
-          return result;
-        }
-
-        const messageTexts = validMessages.map((msg) => msg.message_text);
-        const results = await job["parser"].parseRealEstateMessagesBatch(
-          messageTexts
-        );
-
-        for (let i = 0; i < validMessages.length; i++) {
-          const message = validMessages[i];
-          const parseResult = results[i];
-
-          try {
-            result.processed++;
-
-            // Handle multiple properties per message
-            const properties = parseResult.properties || [];
-            let savedAnyProperty = false;
-
-            // Process each property from the message
-            for (const propertyData of properties) {
-              // Use custom confidence threshold
-              if (
-                propertyData.listing_type &&
-                propertyData.parsing_confidence &&
-                propertyData.parsing_confidence > minConfidence
-              ) {
-                await job["database"].saveParsedProperty(
-                  message.id,
-                  message.user_id,
-                  propertyData,
-                  message.message_text,
-                  parseResult.rawResponse
-                );
-                savedAnyProperty = true;
-              }
-            }
-
-            if (savedAnyProperty) {
-              result.successful++;
-            }
-
-            await job["database"].markMessageAsProcessed(message.id);
-          } catch (error) {
-            result.failed++;
-            result.errors.push(
-              `Failed to process message ${message.id}: ${
-                error instanceof Error ? error.message : "Unknown error"
-              }`
-            );
-
-            try {
-              await job["database"].markMessageAsProcessed(message.id);
-            } catch (markError) {
-              // Ignore mark errors in debug mode
-            }
-          }
-        }
-
-        return result;
-      } catch (error) {
-        result.errors.push(
-          `Fatal error: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`
-        );
-        throw error;
-      }
-    };
-
-    const result = await job.processUnprocessedMessages(batchSize);
-
-    // Restore original method
-    job.processUnprocessedMessages = originalProcessMethod;
+    const result = await job.processUnprocessedMessages(
+      batchSize,
+      minConfidence
+    );
 
     res.json({
       status: "success",
@@ -228,34 +138,11 @@ router.get("/properties", jwtMiddleware, async (req, res) => {
   try {
     const job = initializeParsingJob(req.log);
 
-    const filters = {
-      listing_type: req.query.listing_type as
-        | "sale"
-        | "rental"
-        | "lease"
-        | undefined,
-      property_type: req.query.property_type as string | undefined,
-      location: req.query.location as string | undefined,
-      min_price: req.query.min_price
-        ? parseInt(req.query.min_price as string)
-        : undefined,
-      max_price: req.query.max_price
-        ? parseInt(req.query.max_price as string)
-        : undefined,
-      bedrooms: req.query.bedrooms
-        ? parseInt(req.query.bedrooms as string)
-        : undefined,
-      floor_number: req.query.floor_number
-        ? parseInt(req.query.floor_number as string)
-        : undefined,
-      min_parking_count: req.query.min_parking_count
-        ? parseInt(req.query.min_parking_count as string)
-        : undefined,
-      min_confidence: req.query.min_confidence
-        ? parseFloat(req.query.min_confidence as string)
-        : undefined,
-      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-    };
+    const filters = parsePropertyFilters(req.query);
+    const geoError = getGeoFilterError(req.query, filters);
+    if (geoError) {
+      return res.status(400).json({ status: "error", message: geoError });
+    }
 
     const properties = await job.searchProperties(filters);
 
@@ -274,15 +161,78 @@ router.get("/properties", jwtMiddleware, async (req, res) => {
   }
 });
 
-// Get recent unprocessed messages for debugging - requires authentication
+// Clustered property markers for a map view - requires authentication
+router.get("/properties/clusters", jwtMiddleware, async (req, res) => {
+  try {
+    const job = initializeParsingJob(req.log);
+
+    const filters = parsePropertyFilters(req.query);
+    const geoError = getGeoFilterError(req.query, filters);
+    if (geoError) {
+      return res.status(400).json({ status: "error", message: geoError });
+    }
+
+    const zoom = req.query.zoom ? Number(req.query.zoom) : DEFAULT_MAP_ZOOM;
+    if (!Number.isInteger(zoom) || zoom < 0 || zoom > MAX_MAP_ZOOM) {
+      return res.status(400).json({
+        status: "error",
+        message: `zoom must be an integer from 0 to ${MAX_MAP_ZOOM}`,
+      });
+    }
+
+    const clusters = await job.clusterProperties(filters, zoom);
+
+    res.json({
+      status: "success",
+      data: clusters,
+      count: clusters.length,
+      total: clusters.reduce((sum, cluster) => sum + cluster.count, 0),
+    });
+  } catch (error) {
+    console.error("Error clustering properties:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to cluster properties",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Search canonical listings (re-posts of the same property merged) - requires authentication
+router.get("/listings", jwtMiddleware, async (req, res) => {
+  try {
+    const job = initializeParsingJob(req.log);
+
+    const filters = parsePropertyFilters(req.query);
+    const geoError = getGeoFilterError(req.query, filters);
+    if (geoError) {
+      return res.status(400).json({ status: "error", message: geoError });
+    }
+
+    const listings = await job.searchListings(filters);
+
+    res.json({
+      status: "success",
+      data: listings,
+      count: listings.length,
+    });
+  } catch (error) {
+    console.error("Error searching listings:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to search listings",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Get messages waiting in the parse queue for debugging - requires authentication
 router.get("/unprocessed-messages", jwtMiddleware, async (req, res) => {
   try {
     const { limit = 5 } = req.query;
     const job = initializeParsingJob(req.log);
 
-    const messages = await job["database"].getUnprocessedMessages(
-      parseInt(limit as string)
-    );
+    const messages = await job.getQueuedMessages(parseInt(limit as string));
 
     res.json({
       status: "success",
@@ -294,7 +244,10 @@ router.get("/unprocessed-messages", jwtMiddleware, async (req, res) => {
           msg.message_text?.substring(0, 200) +
           (msg.message_text?.length > 200 ? "..." : ""),
         timestamp: msg.created_at,
-        processed: msg.processed,
+        parse_status: msg.parse_status,
+        parse_attempts: msg.parse_attempts,
+        parse_next_attempt_at: msg.parse_next_attempt_at,
+        parse_last_error: msg.parse_last_error,
       })),
       count: messages.length,
     });
@@ -308,6 +261,71 @@ router.get("/unprocessed-messages", jwtMiddleware, async (req, res) => {
   }
 });
 
+// List messages that exhausted their parse attempts - requires authentication
+router.get("/dead-letter", jwtMiddleware, async (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+    const job = initializeParsingJob(req.log);
+
+    const messages = await job.getDeadLetterMessages(limit, offset);
+
+    res.json({
+      status: "success",
+      data: messages.map((msg) => ({
+        id: msg.id,
+        group_name: msg.group_name,
+        sender: msg.sender,
+        message_text: msg.message_text,
+        timestamp: msg.created_at,
+        parse_attempts: msg.parse_attempts,
+        parse_last_error: msg.parse_last_error,
+        parse_updated_at: msg.parse_updated_at,
+      })),
+      count: messages.length,
+    });
+  } catch (error) {
+    console.error("Error getting dead letter messages:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to get dead letter messages",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Put a dead-lettered message back in the parse queue - requires authentication
+router.post("/dead-letter/:id/retry", jwtMiddleware, async (req, res) => {
+  try {
+    const job = initializeParsingJob(req.log);
+    const message = await job.retryDeadLetterMessage(req.params.id);
+
+    if (!message) {
+      return res.status(404).json({
+        status: "error",
+        message: "Dead-lettered message not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message: "Message re-queued for parsing",
+      data: {
+        id: message.id,
+        parse_status: message.parse_status,
+        parse_attempts: message.parse_attempts,
+      },
+    });
+  } catch (error) {
+    console.error("Error re-queuing message:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to re-queue message",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
 // Public endpoint for basic stats (no auth required)
 router.get("/stats", async (req, res) => {
   try {
@@ -320,6 +338,7 @@ router.get("/stats", async (req, res) => {
         isRunning: status.isRunning,
         totalMessages: status.stats.totalMessages,
         processedMessages: status.stats.processedMessages,
+        deadMessages: status.stats.deadMessages,
         totalParsedProperties: status.stats.totalParsedProperties,
         averageConfidence:
           Math.round(status.stats.averageConfidence * 100) / 100,
@@ -340,35 +359,12 @@ router.get("/properties/export/csv", jwtMiddleware, async (req, res) => {
   try {
     const job = initializeParsingJob(req.log);
 
-    const filters = {
-      listing_type: req.query.listing_type as
-        | "sale"
-        | "rental"
-        | "lease"
-        | undefined,
-      property_type: req.query.property_type as string | undefined,
-      location: req.query.location as string | undefined,
-      min_price: req.query.min_price
-        ? parseInt(req.query.min_price as string)
-        : undefined,
-      max_price: req.query.max_price
-        ? parseInt(req.query.max_price as string)
-        : undefined,
-      bedrooms: req.query.bedrooms
-        ? parseInt(req.query.bedrooms as string)
-        : undefined,
-      floor_number: req.query.floor_number
-        ? parseInt(req.query.floor_number as string)
-        : undefined,
-      min_parking_count: req.query.min_parking_count
-        ? parseInt(req.query.min_parking_count as string)
-        : undefined,
-      min_confidence: req.query.min_confidence
-        ? parseFloat(req.query.min_confidence as string)
-        : undefined,
-      // Remove limit for export to get all records
-      limit: undefined,
-    };
+    // Remove limit for export to get all records
+    const filters = { ...parsePropertyFilters(req.query), limit: undefined };
+    const geoError = getGeoFilterError(req.query, filters);
+    if (geoError) {
+      return res.status(400).json({ status: "error", message: geoError });
+    }
 
     const properties = await job.searchProperties(filters);
 
@@ -398,6 +394,145 @@ router.get("/properties/export/csv", jwtMiddleware, async (req, res) => {
   }
 });
 
+// Export properties with coordinates as GeoJSON or KML for map tools, streamed
+// page by page - requires authentication
+router.get(
+  "/properties/export/:format(geojson|kml)",
+  jwtMiddleware,
+  async (req, res) => {
+    try {
+      const job = initializeParsingJob(req.log);
+      const format = GEO_EXPORT_FORMATS[req.params.format];
+
+      const filters = {
+        ...parsePropertyFilters(req.query),
+        limit: undefined,
+        has_coordinates: true,
+      };
+      const geoError = getGeoFilterError(req.query, filters);
+      if (geoError) {
+        return res.status(400).json({ status: "error", message: geoError });
+      }
+
+      const timestamp = new Date().toISOString().split("T")[0];
+      const filename = `property-listings-${timestamp}.${format.extension}`;
+      const baseUrl =
+        process.env.PUBLIC_BASE_URL?.replace(/\/+$/, "") ||
+        `${req.protocol}://${req.get("host")}`;
+
+      // Headers wait for the first page, so a failing query can still get a
+      // JSON error response
+      let started = false;
+      const start = () => {
+        if (started) return;
+        started = true;
+        res.setHeader("Content-Type", `${format.contentType}; charset=utf-8`);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${filename}"`
+        );
+        res.setHeader("Cache-Control", "no-cache");
+        res.write(format.header());
+      };
+
+      let count = 0;
+      for await (const page of job.iterateProperties(filters)) {
+        start();
+        for (const property of page) {
+          const flushed = res.write(
+            format.feature(
+              property,
+              `${baseUrl}/api/messages/${property.message_id}`,
+              count === 0
+            )
+          );
+          count++;
+          if (!flushed) await waitForDrain(res);
+        }
+        // The client went away, stop reading pages for it
+        if (res.destroyed) return;
+      }
+
+      start();
+      res.end(format.footer());
+    } catch (error) {
+      console.error("Error exporting properties:", error);
+      // Part of the file is already sent, all we can do is cut it short
+      if (res.headersSent) {
+        return res.destroy(error as Error);
+      }
+      res.status(500).json({
+        status: "error",
+        message: "Failed to export properties",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+// Resolves once a slow client has taken the buffered part of a streamed
+// response, or has disconnected
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.once("drain", done);
+    res.once("close", done);
+  });
+}
+
+// Helper function to read property search filters from the query string
+function parsePropertyFilters(query: Request["query"]): PropertySearchFilters {
+  const toInt = (value: unknown) =>
+    value ? parseInt(value as string) : undefined;
+  const toFloat = (value: unknown) =>
+    value ? parseFloat(value as string) : undefined;
+
+  return {
+    listing_type: query.listing_type as PropertySearchFilters["listing_type"],
+    property_type: query.property_type as string | undefined,
+    location: query.location as string | undefined,
+    min_price: toFloat(query.min_price),
+    max_price: toFloat(query.max_price),
+    price_period: query.price_period as PropertySearchFilters["price_period"],
+    bedrooms: toInt(query.bedrooms),
+    floor_number: toInt(query.floor_number),
+    min_parking_count: toInt(query.min_parking_count),
+    min_confidence: toFloat(query.min_confidence),
+    near: parseGeoPoint(query.near) || undefined,
+    radius_km: toFloat(query.radius_km),
+    bbox: parseBoundingBox(query.bbox) || undefined,
+    sort: query.sort as PropertySearchFilters["sort"],
+    limit: toInt(query.limit),
+  };
+}
+
+// Malformed coordinates are a client error, not a missing filter
+function getGeoFilterError(
+  query: Request["query"],
+  filters: PropertySearchFilters
+): string | null {
+  if (query.near && !filters.near) {
+    return "near must be lat,lng";
+  }
+  if (query.bbox && !filters.bbox) {
+    return "bbox must be west,south,east,north";
+  }
+  if (query.radius_km !== undefined && !filters.near) {
+    return "radius_km requires near";
+  }
+  if (
+    filters.radius_km !== undefined &&
+    !(filters.radius_km > 0 && filters.radius_km <= MAX_RADIUS_KM)
+  ) {
+    return `radius_km must be between 0 and ${MAX_RADIUS_KM}`;
+  }
+  return null;
+}
+
 // Helper function to convert properties to CSV format
 function convertPropertiesToCSV(properties: any[]): string {
   if (properties.length === 0) {
@@ -411,6 +546,12 @@ function convertPropertiesToCSV(properties: any[]): string {
     "Listing Type",
     "Price",
     "Price (Numeric)",
+    "Price Min",
+    "Price Max",
+    "Price Unit",
+    "Price Period",
+    "Deposit",
+    "Negotiable",
     "Location",
     "Area Name",
     "City",
@@ -443,6 +584,17 @@ function convertPropertiesToCSV(properties: any[]): string {
         property.listing_type || "",
         property.price || "",
         property.price_numeric || "",
+        property.price_min ?? "",
+        property.price_max ?? "",
+        property.price_unit || "",
+        property.price_period || "",
+        property.deposit_amount ?? "",
+        property.price_negotiable === null ||
+        property.price_negotiable === undefined
+          ? ""
+          : property.price_negotiable
+          ? "Yes"
+          : "No",
         property.location || "",
         property.area_name || "",
         property.city || "",
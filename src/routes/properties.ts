@@ -0,0 +1,138 @@
+import express from "express";
+import { ValidationError } from "../errors/validation-error";
+import { jwtMiddleware } from "../middlewares/jwt";
+import { DatabaseService } from "../services/database";
+import { PropertyCorrectionService } from "../services/property-correction-service";
+import { RequirementMatcher } from "../services/requirement-matcher";
+
+const router = express.Router();
+const database = new DatabaseService();
+const matcher = new RequirementMatcher(database);
+const correctionService = new PropertyCorrectionService(database);
+
+// Apply JWT middleware to all routes
+router.use(jwtMiddleware);
+
+// GET /api/properties/:id/matching-requirements - Requirements a listing fits, best first
+router.get("/:id/matching-requirements", async (req, res) => {
+  try {
+    const optionsError = RequirementMatcher.getMatchOptionsError(req.query);
+    if (optionsError) {
+      return res.status(400).json({ status: "error", message: optionsError });
+    }
+
+    const property = await database.getParsedPropertyById(req.params.id);
+
+    if (!property) {
+      return res.status(404).json({
+        status: "error",
+        message: "Property not found",
+      });
+    }
+
+    const matches = await matcher.findRequirementsForProperty(
+      property,
+      RequirementMatcher.parseMatchOptions(req.query)
+    );
+
+    res.json({
+      status: "success",
+      data: {
+        property,
+        matches,
+      },
+      count: matches.length,
+    });
+  } catch (error) {
+    console.error("Error matching property to requirements:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to find matching requirements",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// PATCH /api/properties/:id - Correct parsed fields; edited fields are locked against re-parsing
+router.patch("/:id", async (req, res) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const validationError = PropertyCorrectionService.getUpdatesError(req.body);
+    if (validationError) {
+      return res.status(400).json({
+        status: "error",
+        message: validationError,
+      });
+    }
+
+    const result = await correctionService.applyCorrection(
+      userId,
+      req.params.id,
+      req.body
+    );
+
+    if (!result) {
+      return res.status(404).json({
+        status: "error",
+        message: "Property not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: result.property,
+      corrections: result.corrections,
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ status: "error", message: error.message });
+    }
+    console.error("Error correcting property:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to correct property",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// GET /api/properties/:id/history - Manual corrections, oldest first
+router.get("/:id/history", async (req, res) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const corrections = await correctionService.getHistory(
+      userId,
+      req.params.id
+    );
+
+    if (!corrections) {
+      return res.status(404).json({
+        status: "error",
+        message: "Property not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: corrections,
+      count: corrections.length,
+    });
+  } catch (error) {
+    console.error("Error fetching property history:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch property history",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
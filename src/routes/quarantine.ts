@@ -0,0 +1,135 @@
+import express from "express";
+import { jwtMiddleware } from "../middlewares/jwt";
+import { quarantineService } from "../services/quarantine-service";
+
+const router = express.Router();
+
+// Apply JWT middleware to all routes
+router.use(jwtMiddleware);
+
+const parseConfidence = (value: unknown) =>
+  value !== undefined ? parseFloat(value as string) : undefined;
+
+// GET /api/quarantine - Messages the filter rejected, near misses first
+router.get("/", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { group_id, promoted } = req.query;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    const messages = await quarantineService.listMessages(userId, {
+      group_id: group_id as string | undefined,
+      min_confidence: parseConfidence(req.query.min_confidence),
+      max_confidence: parseConfidence(req.query.max_confidence),
+      promoted: promoted !== undefined ? promoted === "true" : undefined,
+      limit,
+      offset,
+    });
+
+    res.json({
+      status: "success",
+      data: messages,
+      retention_days: quarantineService.retentionDays,
+      pagination: {
+        limit,
+        offset,
+        count: messages.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/quarantine/labels - Promoted messages, i.e. filter false negatives, for tuning the filter
+router.get("/labels", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 500;
+    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+    const messages = await quarantineService.listMessages(userId, {
+      promoted: true,
+      limit,
+      offset,
+    });
+
+    res.json({
+      status: "success",
+      data: messages.map((message) => ({
+        text: message.message_text,
+        label: "property",
+        filter_result: message.filter_result,
+        group_id: message.group_id,
+        promoted_at: message.promoted_at,
+      })),
+      count: messages.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/quarantine/:id - Get one quarantined message
+router.get("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const message = await quarantineService.getMessage(userId, req.params.id);
+    if (!message) {
+      return res.status(404).json({
+        status: "error",
+        message: "Quarantined message not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: message,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/quarantine/:id/promote - Store the message for parsing and record it as a false negative
+router.post("/:id/promote", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const message = await quarantineService.promoteMessage(
+      userId,
+      req.params.id
+    );
+    if (!message) {
+      return res.status(404).json({
+        status: "error",
+        message: "Quarantined message not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: message,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,79 @@
+import express from "express";
+import { jwtMiddleware } from "../middlewares/jwt";
+import { DatabaseService } from "../services/database";
+import { RequirementMatcher } from "../services/requirement-matcher";
+
+const router = express.Router();
+const database = new DatabaseService();
+const matcher = new RequirementMatcher(database);
+
+// Apply JWT middleware to all routes
+router.use(jwtMiddleware);
+
+// GET /api/requirements/:id - Get a parsed buyer/tenant requirement
+router.get("/:id", async (req, res) => {
+  try {
+    const requirement = await database.getRequirementById(req.params.id);
+
+    if (!requirement) {
+      return res.status(404).json({
+        status: "error",
+        message: "Requirement not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: requirement,
+    });
+  } catch (error) {
+    console.error("Error getting requirement:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to get requirement",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// GET /api/requirements/:id/matches - Listings that fit a requirement, best first
+router.get("/:id/matches", async (req, res) => {
+  try {
+    const optionsError = RequirementMatcher.getMatchOptionsError(req.query);
+    if (optionsError) {
+      return res.status(400).json({ status: "error", message: optionsError });
+    }
+
+    const requirement = await database.getRequirementById(req.params.id);
+
+    if (!requirement) {
+      return res.status(404).json({
+        status: "error",
+        message: "Requirement not found",
+      });
+    }
+
+    const matches = await matcher.findMatchesForRequirement(
+      requirement,
+      RequirementMatcher.parseMatchOptions(req.query)
+    );
+
+    res.json({
+      status: "success",
+      data: {
+        requirement,
+        matches,
+      },
+      count: matches.length,
+    });
+  } catch (error) {
+    console.error("Error matching requirement:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to match requirement",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+export default router;
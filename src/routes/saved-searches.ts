@@ -0,0 +1,165 @@
+import express from "express";
+import { jwtMiddleware } from "../middlewares/jwt";
+import { SavedSearchService } from "../services/saved-search-service";
+
+const router = express.Router();
+const savedSearches = new SavedSearchService();
+
+// Apply JWT middleware to all routes
+router.use(jwtMiddleware);
+
+// GET /api/saved-searches - List the user's saved searches
+router.get("/", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const searches = await savedSearches.listSearches(userId);
+
+    res.json({
+      status: "success",
+      data: searches,
+      count: searches.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/saved-searches - Save a filter set (same filters as /api/parsing-job/properties)
+router.post("/", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { name, filters, is_active } = req.body;
+    if (!name || typeof name !== "string") {
+      return res.status(400).json({
+        status: "error",
+        message: "name is required",
+      });
+    }
+
+    const filtersError = SavedSearchService.getFiltersError(filters);
+    if (filtersError) {
+      return res.status(400).json({
+        status: "error",
+        message: filtersError,
+      });
+    }
+
+    const search = await savedSearches.createSearch(userId, {
+      name,
+      filters: SavedSearchService.sanitizeFilters(filters),
+      is_active,
+    });
+
+    res.status(201).json({
+      status: "success",
+      data: search,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/saved-searches/:id - Get one saved search
+router.get("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const search = await savedSearches.getSearch(userId, req.params.id);
+    if (!search) {
+      return res.status(404).json({
+        status: "error",
+        message: "Saved search not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: search,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/saved-searches/:id - Rename, change filters or pause a saved search
+router.put("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { name, filters, is_active } = req.body;
+    const filtersError = SavedSearchService.getFiltersError(filters);
+    if (filtersError) {
+      return res.status(400).json({
+        status: "error",
+        message: filtersError,
+      });
+    }
+
+    const updates: Parameters<SavedSearchService["updateSearch"]>[2] = {};
+    if (name !== undefined) updates.name = name;
+    if (filters !== undefined) {
+      updates.filters = SavedSearchService.sanitizeFilters(filters);
+    }
+    if (is_active !== undefined) updates.is_active = Boolean(is_active);
+
+    const search = await savedSearches.updateSearch(
+      userId,
+      req.params.id,
+      updates
+    );
+    if (!search) {
+      return res.status(404).json({
+        status: "error",
+        message: "Saved search not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: search,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/saved-searches/:id - Delete a saved search and its alerts
+router.delete("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const deleted = await savedSearches.deleteSearch(userId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        status: "error",
+        message: "Saved search not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message: "Saved search deleted",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,260 @@
+import express from "express";
+import { jwtMiddleware } from "../middlewares/jwt";
+import {
+  getWebhookUrlError,
+  MIN_WEBHOOK_SECRET_LENGTH,
+  WEBHOOK_EVENTS,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  webhookService,
+} from "../services/webhook-service";
+
+const router = express.Router();
+
+// Apply JWT middleware to all routes
+router.use(jwtMiddleware);
+
+/**
+ * Returns an error message when the url, events or secret are invalid
+ */
+async function validateSubscription(
+  url: unknown,
+  events: unknown,
+  secret?: unknown
+): Promise<string | null> {
+  if (url !== undefined) {
+    const urlError = await getWebhookUrlError(String(url));
+    if (urlError) return urlError;
+  }
+
+  if (events !== undefined) {
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      events.some((event) => !WEBHOOK_EVENTS.includes(event))
+    ) {
+      return `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(", ")}`;
+    }
+  }
+
+  if (
+    secret !== undefined &&
+    (typeof secret !== "string" ||
+      secret.trim().length < MIN_WEBHOOK_SECRET_LENGTH)
+  ) {
+    return `secret must be a string of at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+// GET /api/webhooks - List the user's webhook subscriptions
+router.get("/", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const subscriptions = await webhookService.listSubscriptions(userId);
+
+    res.json({
+      status: "success",
+      data: subscriptions,
+      count: subscriptions.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/webhooks - Subscribe a URL to events; the signing secret is generated unless given
+router.post("/", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { url, events, secret } = req.body;
+    const validationError = url
+      ? await validateSubscription(url, events ?? [], secret)
+      : "url is required";
+    if (validationError) {
+      return res.status(400).json({
+        status: "error",
+        message: validationError,
+      });
+    }
+
+    const subscription = await webhookService.createSubscription(userId, {
+      url,
+      events: events as WebhookEventType[],
+      secret,
+    });
+
+    res.status(201).json({
+      status: "success",
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/webhooks/deliveries/:deliveryId/replay - Send a past delivery again
+router.post("/deliveries/:deliveryId/replay", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const delivery = await webhookService.replayDelivery(
+      userId,
+      req.params.deliveryId
+    );
+    if (!delivery) {
+      return res.status(404).json({
+        status: "error",
+        message: "Delivery not found",
+      });
+    }
+
+    res.status(202).json({
+      status: "success",
+      data: delivery,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/webhooks/:id - Get one subscription
+router.get("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const subscription = await webhookService.getSubscription(
+      userId,
+      req.params.id
+    );
+    if (!subscription) {
+      return res.status(404).json({
+        status: "error",
+        message: "Webhook subscription not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/webhooks/:id - Change the URL or events, or pause a subscription
+router.put("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const { url, events, is_active } = req.body;
+    const validationError = await validateSubscription(url, events);
+    if (validationError) {
+      return res.status(400).json({
+        status: "error",
+        message: validationError,
+      });
+    }
+
+    const updates: Parameters<typeof webhookService.updateSubscription>[2] = {};
+    if (url !== undefined) updates.url = url;
+    if (events !== undefined) updates.events = events;
+    if (is_active !== undefined) updates.is_active = Boolean(is_active);
+
+    const subscription = await webhookService.updateSubscription(
+      userId,
+      req.params.id,
+      updates
+    );
+    if (!subscription) {
+      return res.status(404).json({
+        status: "error",
+        message: "Webhook subscription not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/webhooks/:id - Delete a subscription and its delivery log
+router.delete("/:id", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const deleted = await webhookService.deleteSubscription(
+      userId,
+      req.params.id
+    );
+    if (!deleted) {
+      return res.status(404).json({
+        status: "error",
+        message: "Webhook subscription not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message: "Webhook subscription deleted",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/webhooks/:id/deliveries - Delivery log, optionally filtered by status
+router.get("/:id/deliveries", async (req, res, next) => {
+  try {
+    const userId = req.user?.sub;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const deliveries = await webhookService.listDeliveries(
+      userId,
+      req.params.id,
+      {
+        status: req.query.status as WebhookDeliveryStatus | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : 0,
+      }
+    );
+
+    res.json({
+      status: "success",
+      data: deliveries,
+      count: deliveries.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
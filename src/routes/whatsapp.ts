@@ -1,7 +1,14 @@
+import crypto from "crypto";
 import express from "express";
 import { jwtMiddleware } from "../middlewares/jwt";
 import { WhatsAppServiceManager } from "../services/whatsapp-service-manager";
 import logger from "../lib/logger";
+import {
+  parseQrWidth,
+  renderQrPng,
+  renderQrSvg,
+  renderQrTerminal,
+} from "../utils/qr-renderer";
 
 const router = express.Router();
 
@@ -60,9 +67,11 @@ router.get("/status", (req, res, next) => {
       }
 
       const status = userService.getConnectionStatus();
+      const desiredState = await serviceManager.getDesiredState(userId);
       res.json({
         success: true,
         connected: status.isConnected,
+        desired_state: desiredState,
         qr_pending: !!status.qrCode,
         socket_active: status.socketActive,
         ...status,
@@ -75,6 +84,59 @@ router.get("/status", (req, res, next) => {
   })();
 });
 
+// GET /api/whatsapp/qr.png, qr.svg, qr.txt - Current QR code rendered server-side (?width= for images)
+router.get("/qr.:format(png|svg|txt)", (req, res, next) => {
+  (async () => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const serviceManager = req.app.locals
+        .whatsappServiceManager as WhatsAppServiceManager;
+      const qrCode = serviceManager.getExistingService(userId)?.getQrCode();
+      if (!qrCode) {
+        return res.status(404).json({
+          success: false,
+          status: "error",
+          message: "No QR code available, use /connect to start linking",
+        });
+      }
+
+      // The QR rotates every ~20 seconds: let clients revalidate and get a
+      // 304 until it changes
+      const etag = `"${crypto
+        .createHash("sha1")
+        .update(qrCode.qr)
+        .digest("hex")
+        .substring(0, 16)}"`;
+      res.setHeader("Cache-Control", "private, no-cache");
+      res.setHeader("ETag", etag);
+      res.setHeader("Last-Modified", qrCode.issuedAt.toUTCString());
+
+      if (req.headers["if-none-match"] === etag) {
+        return res.status(304).end();
+      }
+
+      const width = parseQrWidth(req.query.width);
+
+      switch (req.params.format) {
+        case "png":
+          res.type("image/png").send(await renderQrPng(qrCode.qr, width));
+          break;
+        case "svg":
+          res.type("image/svg+xml").send(await renderQrSvg(qrCode.qr, width));
+          break;
+        default:
+          res.type("text/plain").send(await renderQrTerminal(qrCode.qr));
+      }
+    } catch (error) {
+      next(error);
+    }
+  })();
+});
+
 // POST /api/whatsapp/connect - Connect/initialize WhatsApp for this user
 router.post("/connect", (req, res, next) => {
   (async () => {
@@ -91,6 +153,8 @@ router.post("/connect", (req, res, next) => {
 
       const serviceManager = req.app.locals
         .whatsappServiceManager as WhatsAppServiceManager;
+      // Connecting explicitly undoes a pause
+      await serviceManager.setDesiredState(userId, "listening");
       const userService = serviceManager.getServiceForUser(userId);
       const result = await userService.initializeIfNeeded();
 
@@ -118,6 +182,63 @@ router.post("/connect", (req, res, next) => {
   })();
 });
 
+// POST /api/whatsapp/pair - Link by phone number: returns a code to enter in WhatsApp instead of scanning a QR
+router.post("/pair", (req, res, next) => {
+  (async () => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const { phone_number } = req.body;
+      if (!phone_number || typeof phone_number !== "string") {
+        return res.status(400).json({
+          success: false,
+          status: "error",
+          message: "phone_number is required, with country code",
+        });
+      }
+
+      const serviceManager = req.app.locals
+        .whatsappServiceManager as WhatsAppServiceManager;
+      await serviceManager.setDesiredState(userId, "listening");
+      const userService = serviceManager.getServiceForUser(userId);
+
+      try {
+        const result = await userService.requestPairingCode(phone_number);
+        res.json({
+          success: true,
+          status: "pairing_code_ready",
+          message:
+            "Open WhatsApp > Linked devices > Link with phone number and enter the code",
+          pairing_code: result.pairingCode,
+          phone_number: result.phoneNumber,
+          user_id: userId,
+        });
+      } catch (error) {
+        logger.warn(
+          {
+            userId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "Failed to request pairing code"
+        );
+        res.status(400).json({
+          success: false,
+          status: "error",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to request pairing code",
+        });
+      }
+    } catch (error) {
+      next(error);
+    }
+  })();
+});
+
 // POST /api/whatsapp/disconnect - Disconnect user's WhatsApp
 router.post("/disconnect", (req, res, next) => {
   (async () => {
@@ -142,6 +263,59 @@ router.post("/disconnect", (req, res, next) => {
   })();
 });
 
+// POST /api/whatsapp/pause - Stop listening to groups without logging out (kept across restarts)
+router.post("/pause", (req, res, next) => {
+  (async () => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const serviceManager = req.app.locals
+        .whatsappServiceManager as WhatsAppServiceManager;
+      await serviceManager.pauseUser(userId);
+
+      res.json({
+        success: true,
+        message: "WhatsApp listening paused",
+        desired_state: "paused",
+        user_id: userId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  })();
+});
+
+// POST /api/whatsapp/resume - Resume listening with the stored WhatsApp session
+router.post("/resume", (req, res, next) => {
+  (async () => {
+    try {
+      const userId = req.user?.sub;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const serviceManager = req.app.locals
+        .whatsappServiceManager as WhatsAppServiceManager;
+      const started = await serviceManager.resumeUser(userId);
+
+      res.json({
+        success: true,
+        message: started
+          ? "WhatsApp listening resumed"
+          : "No stored WhatsApp session, use /connect to scan a QR code",
+        desired_state: "listening",
+        started,
+        user_id: userId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  })();
+});
+
 // POST /api/whatsapp/force-logout - Force logout and cleanup auth data
 router.post("/force-logout", (req, res, next) => {
   (async () => {
@@ -1,18 +1,73 @@
 import { createClient } from "@supabase/supabase-js";
-import { ParsedRealEstateData } from "./groq-parser";
+import type { WhatsAppMessageAttachment } from "../lib/supabase";
+import { computeBackoffDelay } from "../utils/backoff";
+import {
+  BoundingBox,
+  boundingBoxAround,
+  GeoPoint,
+  haversineKm,
+  intersectBoundingBoxes,
+} from "../utils/geo";
+import { PricePeriod } from "../utils/price-normalizer";
+import { ParsedRealEstateData } from "./listing-parser";
+import { ParsedRequirementData } from "./requirement-parser";
+
+/**
+ * Parse lifecycle of a stored message:
+ * pending -> in_progress (leased) -> succeeded
+ *                                 -> failed (retry later) -> ... -> dead
+ */
+export type ParseStatus =
+  | "pending"
+  | "in_progress"
+  | "succeeded"
+  | "failed"
+  | "dead";
+
+/**
+ * Whether a parsed property still reflects its source message: superseded
+ * once the message is edited (and re-parsed), withdrawn once it is deleted
+ */
+export type ListingStatus = "active" | "superseded" | "withdrawn";
+
+export type MessageRevisionType = "edit" | "delete";
 
 export interface WhatsAppMessage {
   id: string;
   user_id: string;
+  timestamp: string;
   group_id: string;
   group_name: string;
   sender: string;
   message_text: string;
   message_meta: any;
-  processed: boolean;
+  message_intent?: "offer" | "requirement" | null;
+  wa_message_id?: string | null;
+  // Set on replies: the WhatsApp id and sender of the quoted message
+  quoted_wa_message_id?: string | null;
+  quoted_participant?: string | null;
+  // From a location pin the sender posted next to the message
+  latitude?: number | null;
+  longitude?: number | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  // Latest reaction emoji keyed by the reacting participant's JID
+  reactions?: Record<string, string>;
+  parse_status: ParseStatus;
+  parse_attempts: number;
+  parse_next_attempt_at: string | null;
+  parse_lease_expires_at: string | null;
+  parse_last_error: string | null;
+  parse_updated_at: string | null;
   created_at: string;
 }
 
+// Retry delays for failed parses: 1 min, 2 min, 4 min ... capped at 1 hour
+const PARSE_RETRY_BACKOFF = {
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+};
+
 export interface ParsedRealEstateProperty {
   id: string;
   message_id: string;
@@ -22,6 +77,13 @@ export interface ParsedRealEstateProperty {
   listing_type: string;
   price?: string;
   price_numeric?: number;
+  price_min?: number;
+  price_max?: number;
+  price_unit?: string;
+  price_period?: string;
+  price_per_sqft?: number | null;
+  deposit_amount?: number;
+  price_negotiable?: boolean;
   location?: string;
   area_name?: string;
   city?: string;
@@ -39,11 +101,164 @@ export interface ParsedRealEstateProperty {
   description?: string;
   raw_message_text?: string;
   parsing_confidence?: number;
+  extraction_method?: string;
+  canonical_listing_id?: string | null;
+  listing_status: ListingStatus;
+  status_changed_at?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  // message_location for a pin from the sender, otherwise the geocoder provider
+  geocode_source?: string | null;
+  // Fields corrected by hand, which parsing never overwrites
+  locked_fields?: string[];
+  // Only set on radius search results
+  distance_km?: number;
+  // Only set on search results, joined from the source message
+  whatsapp_messages?: PropertySourceMessage;
   groq_response?: any;
   created_at: string;
   updated_at: string;
 }
 
+export interface PropertySourceMessage {
+  group_name: string;
+  group_id: string;
+  sender: string;
+  attachments?: WhatsAppMessageAttachment[];
+}
+
+export interface WhatsAppMessageRevision {
+  id: string;
+  message_id: string;
+  revision_type: MessageRevisionType;
+  previous_text: string | null;
+  new_text: string | null;
+  created_at: string;
+}
+
+export interface PropertyCorrection {
+  id: string;
+  property_id: string;
+  editor_id: string;
+  field: string;
+  old_value: any;
+  new_value: any;
+  created_at: string;
+}
+
+/**
+ * Drop the fields a person corrected from an automatic update
+ */
+export function omitLockedFields<T extends object>(
+  updates: T,
+  lockedFields: string[] | null | undefined
+): Partial<T> {
+  if (!lockedFields?.length) return updates;
+  return Object.fromEntries(
+    Object.entries(updates).filter(([key]) => !lockedFields.includes(key))
+  ) as Partial<T>;
+}
+
+export interface PropertyRequirement {
+  id: string;
+  message_id: string;
+  user_id: string;
+  listing_type: string;
+  property_type?: string | null;
+  bedrooms?: number | null;
+  budget_min?: number | null;
+  budget_max?: number | null;
+  budget_period?: string | null;
+  preferred_areas: string[];
+  min_area_sqft?: number | null;
+  furnishing?: string | null;
+  contact_info?: string | null;
+  raw_message_text?: string;
+  parsing_confidence?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CanonicalListing {
+  id: string;
+  listing_type: string;
+  property_type?: string | null;
+  property_name?: string | null;
+  location?: string | null;
+  area_name?: string | null;
+  city?: string | null;
+  bedrooms?: number | null;
+  area_sqft?: number | null;
+  floor_number?: number | null;
+  price_min?: number | null;
+  price_max?: number | null;
+  price_period?: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CanonicalListingWithSources extends CanonicalListing {
+  sources: any[];
+  source_count: number;
+  brokers: { sender: string; contact_info: string | null }[];
+  groups: { group_id: string; group_name: string }[];
+}
+
+export type PropertySort = "newest" | "price_asc" | "price_desc" | "distance";
+
+export interface PropertySearchFilters {
+  listing_type?: "sale" | "rental" | "lease";
+  property_type?: string;
+  location?: string;
+  min_price?: number;
+  max_price?: number;
+  price_period?: PricePeriod;
+  bedrooms?: number;
+  floor_number?: number;
+  min_parking_count?: number;
+  min_confidence?: number;
+  // Radius search around a point, and/or a map viewport
+  near?: GeoPoint;
+  radius_km?: number;
+  bbox?: BoundingBox;
+  // Only properties with coordinates (map exports)
+  has_coordinates?: boolean;
+  sort?: PropertySort;
+  limit?: number;
+  offset?: number;
+}
+
+export const DEFAULT_RADIUS_KM = 3;
+// Upper bound on the points fetched for one map view
+const MAX_CLUSTER_POINTS = 5000;
+// PostgREST returns at most 1000 rows per request by default
+const RADIUS_PAGE_SIZE = 1000;
+
+// The box the geo filters narrow a query to; a radius is checked on the
+// results afterwards
+function getSearchBox(filters: PropertySearchFilters): BoundingBox | undefined {
+  if (!filters.near) return filters.bbox;
+  const circleBox = boundingBoxAround(
+    filters.near,
+    filters.radius_km || DEFAULT_RADIUS_KM
+  );
+  return filters.bbox
+    ? intersectBoundingBoxes(filters.bbox, circleBox)
+    : circleBox;
+}
+
+export interface ProcessingStats {
+  totalMessages: number;
+  processedMessages: number;
+  unprocessedMessages: number;
+  deadMessages: number;
+  queue: Record<ParseStatus, number>;
+  totalParsedProperties: number;
+  averageConfidence: number;
+}
+
 export class DatabaseService {
   private supabase;
 
@@ -60,31 +275,421 @@ export class DatabaseService {
     this.supabase = createClient(supabaseUrl, supabaseServiceKey);
   }
 
-  async getUnprocessedMessages(limit = 100): Promise<WhatsAppMessage[]> {
+  /**
+   * Atomically lease a batch of due messages (pending, failed and ready for
+   * retry, or in progress with an expired lease) for parsing
+   */
+  async claimMessagesForParsing(
+    limit: number,
+    leaseSeconds: number,
+    maxAttempts: number
+  ): Promise<WhatsAppMessage[]> {
+    const { data, error } = await this.supabase.rpc(
+      "claim_messages_for_parsing",
+      {
+        batch_size: limit,
+        lease_seconds: leaseSeconds,
+        max_attempts: maxAttempts,
+      }
+    );
+
+    if (error) {
+      throw new Error(`Failed to claim messages for parsing: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async markParseSucceeded(messageId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("whatsapp_messages")
+      .update({
+        parse_status: "succeeded",
+        parse_lease_expires_at: null,
+        parse_last_error: null,
+        parse_updated_at: new Date().toISOString(),
+      })
+      .eq("id", messageId);
+
+    if (error) {
+      throw new Error(`Failed to mark message as parsed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or move the message to the
+   * dead letter queue once it has used up its attempts
+   */
+  async markParseFailed(
+    message: WhatsAppMessage,
+    errorMessage: string,
+    maxAttempts: number
+  ): Promise<ParseStatus> {
+    const isDead = message.parse_attempts >= maxAttempts;
+    const nextAttemptAt = isDead
+      ? null
+      : new Date(
+          Date.now() +
+            computeBackoffDelay(message.parse_attempts, PARSE_RETRY_BACKOFF)
+        ).toISOString();
+
+    const { error } = await this.supabase
+      .from("whatsapp_messages")
+      .update({
+        parse_status: isDead ? "dead" : "failed",
+        parse_next_attempt_at: nextAttemptAt,
+        parse_lease_expires_at: null,
+        parse_last_error: errorMessage,
+        parse_updated_at: new Date().toISOString(),
+      })
+      .eq("id", message.id);
+
+    if (error) {
+      throw new Error(`Failed to mark message as failed: ${error.message}`);
+    }
+
+    return isDead ? "dead" : "failed";
+  }
+
+  async getQueuedMessages(limit = 100): Promise<WhatsAppMessage[]> {
     const { data, error } = await this.supabase
       .from("whatsapp_messages")
       .select("*")
-      .eq("processed", false)
-      .not("message_text", "is", null)
+      .in("parse_status", ["pending", "failed", "in_progress"])
       .order("timestamp", { ascending: true })
       .limit(limit);
 
     if (error) {
-      throw new Error(`Failed to fetch unprocessed messages: ${error.message}`);
+      throw new Error(`Failed to fetch queued messages: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getDeadLetterMessages(
+    limit = 50,
+    offset = 0
+  ): Promise<WhatsAppMessage[]> {
+    const { data, error } = await this.supabase
+      .from("whatsapp_messages")
+      .select("*")
+      .eq("parse_status", "dead")
+      .order("parse_updated_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch dead letter messages: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Put a message back in the queue with a fresh attempt budget. With
+   * `fromStatus`, only a message in that status is requeued. Properties and
+   * requirements from earlier attempts are removed, since the fresh budget
+   * skips the per-attempt cleanup.
+   */
+  async requeueMessage(
+    messageId: string,
+    fromStatus?: ParseStatus
+  ): Promise<WhatsAppMessage | null> {
+    let query = this.supabase
+      .from("whatsapp_messages")
+      .update({
+        parse_status: "pending",
+        parse_attempts: 0,
+        parse_next_attempt_at: new Date().toISOString(),
+        parse_lease_expires_at: null,
+        parse_last_error: null,
+        parse_updated_at: new Date().toISOString(),
+      })
+      .eq("id", messageId);
+
+    if (fromStatus) {
+      query = query.eq("parse_status", fromStatus);
+    }
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to requeue message: ${error.message}`);
+    }
+
+    if (data) {
+      await this.deleteParsedPropertiesForMessage(messageId);
+      await this.deleteRequirementsForMessage(messageId);
+    }
+
+    return data;
+  }
+
+  /**
+   * Remove properties left behind by an earlier, partially failed attempt.
+   * Manually corrected properties are kept (see refreshParsedProperty).
+   */
+  async deleteParsedPropertiesForMessage(messageId: string): Promise<void> {
+    // Superseded rows are history from before an edit, keep them
+    const { error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .delete()
+      .eq("message_id", messageId)
+      .eq("listing_status", "active")
+      .eq("locked_fields", "{}");
+
+    if (error) {
+      throw new Error(`Failed to delete parsed properties: ${error.message}`);
+    }
+  }
+
+  /**
+   * The user's own copy of a group message; every user in a group stores one
+   */
+  async findMessageByWhatsAppId(
+    userId: string,
+    groupId: string,
+    waMessageId: string
+  ): Promise<WhatsAppMessage | null> {
+    const { data, error } = await this.supabase
+      .from("whatsapp_messages")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("group_id", groupId)
+      .eq("wa_message_id", waMessageId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch message: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async recordMessageRevision(
+    messageId: string,
+    revisionType: MessageRevisionType,
+    previousText: string | null,
+    newText: string | null
+  ): Promise<WhatsAppMessageRevision> {
+    const { data, error } = await this.supabase
+      .from("whatsapp_message_revisions")
+      .insert([
+        {
+          message_id: messageId,
+          revision_type: revisionType,
+          previous_text: previousText,
+          new_text: newText,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record message revision: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getMessageRevisions(
+    messageId: string
+  ): Promise<WhatsAppMessageRevision[]> {
+    const { data, error } = await this.supabase
+      .from("whatsapp_message_revisions")
+      .select("*")
+      .eq("message_id", messageId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch message revisions: ${error.message}`);
     }
 
     return data || [];
   }
 
-  async markMessageAsProcessed(messageId: string): Promise<void> {
+  async updateMessage(
+    messageId: string,
+    updates: Partial<
+      Pick<
+        WhatsAppMessage,
+        | "message_text"
+        | "message_meta"
+        | "message_intent"
+        | "edited_at"
+        | "deleted_at"
+        | "reactions"
+      >
+    >
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("whatsapp_messages")
+      .update(updates)
+      .eq("id", messageId);
+
+    if (error) {
+      throw new Error(`Failed to update message: ${error.message}`);
+    }
+  }
+
+  /**
+   * The sender's most recent message in a group within a time range, from
+   * the user's own copies
+   */
+  async findLatestMessageFromSender(
+    userId: string,
+    groupId: string,
+    sender: string,
+    from: string,
+    to: string
+  ): Promise<WhatsAppMessage | null> {
+    const { data, error } = await this.supabase
+      .from("whatsapp_messages")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("group_id", groupId)
+      .eq("sender", sender)
+      .gte("timestamp", from)
+      .lte("timestamp", to)
+      .is("deleted_at", null)
+      .order("timestamp", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch message: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async setMessageLocation(
+    messageId: string,
+    latitude: number,
+    longitude: number
+  ): Promise<void> {
     const { error } = await this.supabase
       .from("whatsapp_messages")
-      .update({ processed: true })
+      .update({ latitude, longitude })
       .eq("id", messageId);
 
     if (error) {
-      throw new Error(`Failed to mark message as processed: ${error.message}`);
+      throw new Error(`Failed to update message location: ${error.message}`);
+    }
+  }
+
+  /**
+   * Set the coordinates of a message's active properties. Returns how many
+   * properties changed.
+   */
+  async setCoordinatesForMessage(
+    messageId: string,
+    latitude: number,
+    longitude: number,
+    source: string
+  ): Promise<number> {
+    const { data, error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .update({
+        latitude,
+        longitude,
+        geocode_source: source,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("message_id", messageId)
+      .eq("listing_status", "active")
+      // Corrected coordinates beat pins and the geocoder
+      .not("locked_fields", "cs", "{latitude}")
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to update coordinates: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  async getActivePropertiesForMessage(
+    messageId: string
+  ): Promise<ParsedRealEstateProperty[]> {
+    const { data, error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .select("*")
+      .eq("message_id", messageId)
+      .eq("listing_status", "active");
+
+    if (error) {
+      throw new Error(`Failed to fetch parsed properties: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getCorrectedPropertiesForMessage(
+    messageId: string
+  ): Promise<ParsedRealEstateProperty[]> {
+    const { data, error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .select("*")
+      .eq("message_id", messageId)
+      .eq("listing_status", "active")
+      .neq("locked_fields", "{}")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch parsed properties: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async updateParsedProperty(
+    propertyId: string,
+    updates: Partial<ParsedRealEstateProperty>
+  ): Promise<ParsedRealEstateProperty> {
+    const { data, error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", propertyId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update parsed property: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Move a message's active properties to a new status. Returns how many
+   * properties changed.
+   */
+  async setListingStatusForMessage(
+    messageId: string,
+    status: ListingStatus
+  ): Promise<number> {
+    let query = this.supabase
+      .from("parsed_real_estate_properties")
+      .update({
+        listing_status: status,
+        status_changed_at: new Date().toISOString(),
+      })
+      .eq("message_id", messageId)
+      .eq("listing_status", "active");
+
+    // Corrected properties stay active; the re-parse refreshes them
+    if (status === "superseded") {
+      query = query.eq("locked_fields", "{}");
+    }
+
+    const { data, error } = await query.select("id");
+
+    if (error) {
+      throw new Error(`Failed to update listing status: ${error.message}`);
     }
+
+    return data?.length || 0;
   }
 
   async saveParsedProperty(
@@ -94,7 +699,67 @@ export class DatabaseService {
     rawMessageText: string,
     groqResponse: any
   ): Promise<ParsedRealEstateProperty> {
-    const propertyData = {
+    const propertyData = this.toPropertyRow(
+      messageId,
+      userId,
+      parsedData,
+      rawMessageText,
+      groqResponse
+    );
+
+    const { data, error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .insert([propertyData])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save parsed property: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Overwrite a manually corrected property with a new parse result, except
+   * for its locked fields
+   */
+  async refreshParsedProperty(
+    property: ParsedRealEstateProperty,
+    parsedData: ParsedRealEstateData,
+    rawMessageText: string,
+    groqResponse: any
+  ): Promise<ParsedRealEstateProperty> {
+    const { message_id, user_id, ...propertyData } = this.toPropertyRow(
+      property.message_id,
+      property.user_id,
+      parsedData,
+      rawMessageText,
+      groqResponse
+    );
+
+    const { data, error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .update(omitLockedFields(propertyData, property.locked_fields))
+      .eq("id", property.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to refresh parsed property: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  private toPropertyRow(
+    messageId: string,
+    userId: string,
+    parsedData: ParsedRealEstateData,
+    rawMessageText: string,
+    groqResponse: any
+  ) {
+    return {
       message_id: messageId,
       user_id: userId,
       property_name: parsedData.property_name || null,
@@ -102,38 +767,37 @@ export class DatabaseService {
       listing_type: parsedData.listing_type,
       price: parsedData.price || null,
       price_numeric: parsedData.price_numeric || null,
+      price_min: parsedData.price_min ?? null,
+      price_max: parsedData.price_max ?? null,
+      price_unit: parsedData.price_unit || null,
+      price_per_sqft: parsedData.price_per_sqft ?? null,
+      price_period: parsedData.price_period || null,
+      deposit_amount: parsedData.deposit_amount ?? null,
+      price_negotiable: parsedData.price_negotiable ?? null,
       location: parsedData.location || null,
       area_name: parsedData.area_name || null,
       city: parsedData.city || null,
       bedrooms: parsedData.bedrooms || null,
       bathrooms: parsedData.bathrooms || null,
       area_sqft: parsedData.area_sqft || null,
-      floor_number: parsedData.floor_number || null,
+      floor_number: parsedData.floor_number ?? null,
       total_floors: parsedData.total_floors || null,
       amenities: parsedData.amenities || null,
       furnishing: parsedData.furnishing || null,
-      parking: parsedData.parking || null,
+      parking: parsedData.parking ?? null,
       parking_count: parsedData.parking_count || null,
       contact_info: parsedData.contact_info || null,
       availability_date: parsedData.availability_date || null,
       description: parsedData.description || null,
       raw_message_text: rawMessageText,
       parsing_confidence: parsedData.parsing_confidence || 0,
+      extraction_method: parsedData.extraction_method || null,
+      latitude: parsedData.latitude ?? null,
+      longitude: parsedData.longitude ?? null,
+      geocode_source: parsedData.geocode_source || null,
       groq_response: groqResponse,
       updated_at: new Date().toISOString(),
     };
-
-    const { data, error } = await this.supabase
-      .from("parsed_real_estate_properties")
-      .insert([propertyData])
-      .select()
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to save parsed property: ${error.message}`);
-    }
-
-    return data;
   }
 
   async saveParsedProperties(
@@ -159,26 +823,34 @@ export class DatabaseService {
     return savedProperties;
   }
 
-  async getProcessingStats(): Promise<{
-    totalMessages: number;
-    processedMessages: number;
-    unprocessedMessages: number;
-    totalParsedProperties: number;
-    averageConfidence: number;
-  }> {
-    // Get message counts
-    const { data: messageStats, error: messageError } = await this.supabase
-      .from("whatsapp_messages")
-      .select("processed", { count: "exact" });
+  async getProcessingStats(): Promise<ProcessingStats> {
+    // Count messages in each parse state
+    const statuses: ParseStatus[] = [
+      "pending",
+      "in_progress",
+      "succeeded",
+      "failed",
+      "dead",
+    ];
+    const queue = {} as Record<ParseStatus, number>;
 
-    if (messageError) {
-      throw new Error(`Failed to get message stats: ${messageError.message}`);
+    for (const status of statuses) {
+      const { count, error } = await this.supabase
+        .from("whatsapp_messages")
+        .select("id", { count: "exact", head: true })
+        .eq("parse_status", status);
+
+      if (error) {
+        throw new Error(`Failed to get message stats: ${error.message}`);
+      }
+
+      queue[status] = count || 0;
     }
 
-    const totalMessages = messageStats?.length || 0;
-    const processedMessages =
-      messageStats?.filter((m) => m.processed).length || 0;
-    const unprocessedMessages = totalMessages - processedMessages;
+    const totalMessages = statuses.reduce(
+      (sum, status) => sum + queue[status],
+      0
+    );
 
     // Get parsed properties stats
     const { data: propertyStats, error: propertyError } = await this.supabase
@@ -200,36 +872,266 @@ export class DatabaseService {
 
     return {
       totalMessages,
-      processedMessages,
-      unprocessedMessages,
+      processedMessages: queue.succeeded,
+      unprocessedMessages: queue.pending + queue.in_progress + queue.failed,
+      deadMessages: queue.dead,
+      queue,
       totalParsedProperties,
       averageConfidence,
     };
   }
 
-  async searchParsedProperties(filters: {
-    listing_type?: "sale" | "rental" | "lease";
-    property_type?: string;
-    location?: string;
-    min_price?: number;
-    max_price?: number;
-    bedrooms?: number;
-    floor_number?: number;
-    min_parking_count?: number;
-    min_confidence?: number;
-    limit?: number;
-  }): Promise<ParsedRealEstateProperty[]> {
-    // Join with messages table to include group information
-    let query = this.supabase.from("parsed_real_estate_properties").select(`
+  async saveRequirement(
+    messageId: string,
+    userId: string,
+    requirement: ParsedRequirementData,
+    rawMessageText: string
+  ): Promise<PropertyRequirement> {
+    const { data, error } = await this.supabase
+      .from("property_requirements")
+      .insert([
+        {
+          message_id: messageId,
+          user_id: userId,
+          listing_type: requirement.listing_type,
+          property_type: requirement.property_type || null,
+          bedrooms: requirement.bedrooms || null,
+          budget_min: requirement.budget_min ?? null,
+          budget_max: requirement.budget_max ?? null,
+          budget_period: requirement.budget_period || null,
+          preferred_areas: requirement.preferred_areas,
+          min_area_sqft: requirement.min_area_sqft || null,
+          furnishing: requirement.furnishing || null,
+          contact_info: requirement.contact_info || null,
+          raw_message_text: rawMessageText,
+          parsing_confidence: requirement.parsing_confidence,
+          updated_at: new Date().toISOString(),
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save requirement: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteRequirementsForMessage(messageId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("property_requirements")
+      .delete()
+      .eq("message_id", messageId);
+
+    if (error) {
+      throw new Error(`Failed to delete requirements: ${error.message}`);
+    }
+  }
+
+  async getRequirementById(id: string): Promise<PropertyRequirement | null> {
+    const { data, error } = await this.supabase
+      .from("property_requirements")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch requirement: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getRecentRequirements(
+    listingType: string,
+    since: string,
+    limit = 500
+  ): Promise<PropertyRequirement[]> {
+    const { data, error } = await this.supabase
+      .from("property_requirements")
+      .select("*")
+      .eq("listing_type", listingType)
+      .gte("created_at", since)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch requirements: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async recordPropertyCorrections(
+    corrections: Omit<PropertyCorrection, "id" | "created_at">[]
+  ): Promise<PropertyCorrection[]> {
+    const { data, error } = await this.supabase
+      .from("property_corrections")
+      .insert(corrections)
+      .select();
+
+    if (error) {
+      throw new Error(
+        `Failed to record property corrections: ${error.message}`
+      );
+    }
+
+    return data || [];
+  }
+
+  async getPropertyCorrections(
+    propertyId: string
+  ): Promise<PropertyCorrection[]> {
+    const { data, error } = await this.supabase
+      .from("property_corrections")
+      .select("*")
+      .eq("property_id", propertyId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch property corrections: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getParsedPropertyById(
+    id: string
+  ): Promise<ParsedRealEstateProperty | null> {
+    const { data, error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch parsed property: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Recent canonical listings that could describe the same property
+   */
+  async findCanonicalListingCandidates(
+    property: ParsedRealEstateProperty,
+    since: string,
+    limit = 200
+  ): Promise<CanonicalListing[]> {
+    let query = this.supabase
+      .from("canonical_listings")
+      .select("*")
+      .eq("listing_type", property.listing_type)
+      .gte("last_seen_at", since);
+
+    if (property.bedrooms) {
+      query = query.or(`bedrooms.eq.${property.bedrooms},bedrooms.is.null`);
+    }
+
+    const { data, error } = await query
+      .order("last_seen_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(
+        `Failed to fetch canonical listing candidates: ${error.message}`
+      );
+    }
+
+    return data || [];
+  }
+
+  async createCanonicalListing(
+    listing: Omit<CanonicalListing, "id" | "created_at" | "updated_at">
+  ): Promise<CanonicalListing> {
+    const { data, error } = await this.supabase
+      .from("canonical_listings")
+      .insert([listing])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create canonical listing: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateCanonicalListing(
+    listingId: string,
+    updates: Partial<CanonicalListing>
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("canonical_listings")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", listingId);
+
+    if (error) {
+      throw new Error(`Failed to update canonical listing: ${error.message}`);
+    }
+  }
+
+  async setPropertyCanonicalListing(
+    propertyId: string,
+    listingId: string
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("parsed_real_estate_properties")
+      .update({ canonical_listing_id: listingId })
+      .eq("id", propertyId);
+
+    if (error) {
+      throw new Error(`Failed to link property to listing: ${error.message}`);
+    }
+  }
+
+  /**
+   * Search canonical listings with every parsed property (and its source
+   * message) that was clustered into them
+   */
+  async searchCanonicalListings(
+    filters: PropertySearchFilters
+  ): Promise<CanonicalListingWithSources[]> {
+    // Inner join hides listings whose properties have all been removed.
+    // Listings have no coordinates of their own; geo filters match the
+    // properties under a second alias so every source is still returned.
+    const box = getSearchBox(filters);
+    const located = box
+      ? ", located:parsed_real_estate_properties!inner (latitude, longitude)"
+      : "";
+    let query = this.supabase.from("canonical_listings").select(`
         *,
-        whatsapp_messages!inner (
-          group_name,
-          group_id,
-          sender
-        )
+        sources:parsed_real_estate_properties!inner (
+          id,
+          message_id,
+          price,
+          price_min,
+          price_max,
+          contact_info,
+          parsing_confidence,
+          created_at,
+          whatsapp_messages!inner (
+            group_name,
+            group_id,
+            sender,
+            timestamp
+          )
+        )${located}
       `);
 
-    // Apply filters
+    query = query.eq("sources.listing_status", "active");
+
+    if (box) {
+      query = query
+        .eq("located.listing_status", "active")
+        .gte("located.latitude", box.south)
+        .lte("located.latitude", box.north)
+        .gte("located.longitude", box.west)
+        .lte("located.longitude", box.east);
+    }
+
     if (filters.listing_type) {
       query = query.eq("listing_type", filters.listing_type);
     }
@@ -243,11 +1145,268 @@ export class DatabaseService {
     }
 
     if (filters.min_price) {
-      query = query.gte("price_numeric", filters.min_price);
+      query = query.gte("price_max", filters.min_price);
     }
 
     if (filters.max_price) {
-      query = query.lte("price_numeric", filters.max_price);
+      query = query.lte("price_min", filters.max_price);
+    }
+
+    if (filters.price_period) {
+      query = query.eq("price_period", filters.price_period);
+    }
+
+    if (filters.bedrooms) {
+      query = query.eq("bedrooms", filters.bedrooms);
+    }
+
+    if (filters.floor_number) {
+      query = query.eq("floor_number", filters.floor_number);
+    }
+
+    if (filters.sort === "price_asc" || filters.sort === "price_desc") {
+      query = query.order("price_min", {
+        ascending: filters.sort === "price_asc",
+        nullsFirst: false,
+      });
+    }
+
+    query = query.order("last_seen_at", { ascending: false });
+
+    // Radius results are trimmed after the query, so the limit waits too
+    if (filters.limit && filters.limit > 0 && !filters.near) {
+      query = query.limit(filters.limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to search canonical listings: ${error.message}`);
+    }
+
+    let rows = data || [];
+    if (filters.near) {
+      rows = this.withinRadius(rows, filters);
+    }
+
+    return rows.map(({ located, ...listing }: any) => {
+      const sources = listing.sources || [];
+      const brokers = new Map<
+        string,
+        { sender: string; contact_info: string | null }
+      >();
+      const groups = new Map<string, string>();
+
+      for (const source of sources) {
+        const message = source.whatsapp_messages;
+        if (!message) continue;
+        if (!brokers.has(message.sender)) {
+          brokers.set(message.sender, {
+            sender: message.sender,
+            contact_info: source.contact_info || null,
+          });
+        }
+        groups.set(message.group_id, message.group_name);
+      }
+
+      return {
+        ...listing,
+        source_count: sources.length,
+        brokers: Array.from(brokers.values()),
+        groups: Array.from(groups, ([group_id, group_name]) => ({
+          group_id,
+          group_name,
+        })),
+      };
+    });
+  }
+
+  /**
+   * Listings with a located property inside the search radius, with the
+   * distance to the nearest one, nearest first unless a price order was
+   * asked for
+   */
+  private withinRadius(listings: any[], filters: PropertySearchFilters) {
+    const center = filters.near!;
+    const radiusKm = filters.radius_km || DEFAULT_RADIUS_KM;
+
+    const nearby = listings
+      .map((listing) => ({
+        ...listing,
+        distance_km:
+          Math.round(
+            Math.min(
+              ...(listing.located || []).map((point: GeoPoint) =>
+                haversineKm(center, point)
+              )
+            ) * 100
+          ) / 100,
+      }))
+      .filter((listing) => listing.distance_km <= radiusKm);
+
+    if (!filters.sort || filters.sort === "distance") {
+      nearby.sort((a, b) => a.distance_km - b.distance_km);
+    }
+
+    return filters.limit && filters.limit > 0
+      ? nearby.slice(0, filters.limit)
+      : nearby;
+  }
+
+  async searchParsedProperties(
+    filters: PropertySearchFilters
+  ): Promise<ParsedRealEstateProperty[]> {
+    const fetchRange = async (from?: number, to?: number) => {
+      // Join with messages table to include group information
+      let query = this.applyPropertyFilters(
+        this.supabase.from("parsed_real_estate_properties").select(`
+          *,
+          whatsapp_messages!inner (
+            group_name,
+            group_id,
+            sender,
+            attachments:whatsapp_message_attachments (*)
+          )
+        `),
+        filters
+      );
+
+      if (filters.sort === "price_asc" || filters.sort === "price_desc") {
+        query = query.order("price_min", {
+          ascending: filters.sort === "price_asc",
+          nullsFirst: false,
+        });
+      }
+
+      // id keeps the order stable when paging through equal timestamps
+      query = query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: true });
+      if (from !== undefined && to !== undefined) {
+        query = query.range(from, to);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to search parsed properties: ${error.message}`);
+      }
+
+      return data || [];
+    };
+
+    if (!filters.near) {
+      if (!filters.limit || filters.limit <= 0) return fetchRange();
+      const offset = filters.offset || 0;
+      return fetchRange(offset, offset + filters.limit - 1);
+    }
+
+    // Radius results are trimmed to the circle first, so read the whole
+    // bounding box page by page; a single request is capped by the server's
+    // row limit and would drop nearer properties in dense areas
+    const boxed: ParsedRealEstateProperty[] = [];
+    for (let from = 0; ; from += RADIUS_PAGE_SIZE) {
+      const page = await fetchRange(from, from + RADIUS_PAGE_SIZE - 1);
+      boxed.push(...page);
+      if (page.length < RADIUS_PAGE_SIZE) break;
+    }
+
+    const center = filters.near;
+    const radiusKm = filters.radius_km || DEFAULT_RADIUS_KM;
+    const properties = boxed
+      .map((property: ParsedRealEstateProperty) => ({
+        ...property,
+        distance_km:
+          Math.round(
+            haversineKm(center, {
+              latitude: property.latitude!,
+              longitude: property.longitude!,
+            }) * 100
+          ) / 100,
+      }))
+      .filter(
+        (property: ParsedRealEstateProperty) =>
+          property.distance_km! <= radiusKm
+      );
+
+    // Nearest first unless a price order was asked for
+    if (!filters.sort || filters.sort === "distance") {
+      properties.sort(
+        (a: ParsedRealEstateProperty, b: ParsedRealEstateProperty) =>
+          a.distance_km! - b.distance_km!
+      );
+    }
+
+    const offset = filters.offset || 0;
+    return filters.limit && filters.limit > 0
+      ? properties.slice(offset, offset + filters.limit)
+      : properties.slice(offset);
+  }
+
+  /**
+   * Id and coordinates of every matching property that has coordinates,
+   * for map clustering
+   */
+  async searchPropertyCoordinates(
+    filters: PropertySearchFilters
+  ): Promise<(GeoPoint & { id: string })[]> {
+    const query = this.applyPropertyFilters(
+      this.supabase
+        .from("parsed_real_estate_properties")
+        .select("id, latitude, longitude")
+        .not("latitude", "is", null)
+        .not("longitude", "is", null),
+      filters
+    );
+
+    const { data, error } = await query.limit(MAX_CLUSTER_POINTS);
+
+    if (error) {
+      throw new Error(
+        `Failed to search property coordinates: ${error.message}`
+      );
+    }
+
+    const points = data || [];
+    if (!filters.near) return points;
+
+    const radiusKm = filters.radius_km || DEFAULT_RADIUS_KM;
+    return points.filter(
+      (point: GeoPoint) => haversineKm(filters.near!, point) <= radiusKm
+    );
+  }
+
+  /**
+   * Filters shared by the property list and map queries. Geo filters only
+   * narrow to a box here; radius checks happen on the results.
+   */
+  private applyPropertyFilters(query: any, filters: PropertySearchFilters) {
+    // Edited and deleted messages keep their old properties for history only
+    query = query.eq("listing_status", "active");
+
+    if (filters.listing_type) {
+      query = query.eq("listing_type", filters.listing_type);
+    }
+
+    if (filters.property_type) {
+      query = query.eq("property_type", filters.property_type);
+    }
+
+    if (filters.location) {
+      query = query.ilike("location", `%${filters.location}%`);
+    }
+
+    // A listing matches when its price range overlaps the requested one
+    if (filters.min_price) {
+      query = query.gte("price_max", filters.min_price);
+    }
+
+    if (filters.max_price) {
+      query = query.lte("price_min", filters.max_price);
+    }
+
+    if (filters.price_period) {
+      query = query.eq("price_period", filters.price_period);
     }
 
     if (filters.bedrooms) {
@@ -266,19 +1425,19 @@ export class DatabaseService {
       query = query.gte("parsing_confidence", filters.min_confidence);
     }
 
-    query = query.order("created_at", { ascending: false });
-
-    // Only apply limit if it's specified
-    if (filters.limit && filters.limit > 0) {
-      query = query.limit(filters.limit);
+    if (filters.has_coordinates) {
+      query = query.not("latitude", "is", null).not("longitude", "is", null);
     }
 
-    const { data, error } = await query;
-
-    if (error) {
-      throw new Error(`Failed to search parsed properties: ${error.message}`);
+    const box = getSearchBox(filters);
+    if (box) {
+      query = query
+        .gte("latitude", box.south)
+        .lte("latitude", box.north)
+        .gte("longitude", box.west)
+        .lte("longitude", box.east);
     }
 
-    return data || [];
+    return query;
   }
 }
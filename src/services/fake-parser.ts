@@ -0,0 +1,43 @@
+import {
+  ListingParser,
+  ParsedRealEstateData,
+  ParsedRealEstateResult,
+} from "./listing-parser";
+
+/**
+ * Deterministic parser for tests and local development. Returns the
+ * properties registered for a message text and nothing for anything else.
+ */
+export class FakeListingParser implements ListingParser {
+  readonly provider = "fake";
+  readonly model = "fake";
+  private fixtures = new Map<string, ParsedRealEstateData[]>();
+
+  constructor(fixtures: Record<string, ParsedRealEstateData[]> = {}) {
+    Object.entries(fixtures).forEach(([messageText, properties]) =>
+      this.setResult(messageText, properties)
+    );
+  }
+
+  setResult(messageText: string, properties: ParsedRealEstateData[]): void {
+    this.fixtures.set(messageText.trim(), properties);
+  }
+
+  async parseRealEstateMessage(
+    messageText: string
+  ): Promise<ParsedRealEstateResult> {
+    const results = await this.parseRealEstateMessagesBatch([messageText]);
+    return results[0];
+  }
+
+  async parseRealEstateMessagesBatch(
+    messageTexts: string[]
+  ): Promise<ParsedRealEstateResult[]> {
+    return messageTexts.map((messageText) => ({
+      properties: (this.fixtures.get(messageText.trim()) || []).map(
+        (property) => ({ ...property })
+      ),
+      rawResponse: { provider: this.provider },
+    }));
+  }
+}
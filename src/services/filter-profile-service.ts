@@ -0,0 +1,257 @@
+import { supabaseAdmin } from "../lib/supabase";
+import {
+  DEFAULT_FILTER_WEIGHTS,
+  FilterRules,
+  FilterWeights,
+  PropertyFilterResult,
+  PropertyMessageFilter,
+} from "../utils/property-filter";
+
+export interface FilterProfile {
+  id: string;
+  user_id: string;
+  name: string;
+  rules: FilterRules;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfileFilterResult extends PropertyFilterResult {
+  // Profile that accepted the message, or gave the best score if none did
+  profile_id: string | null;
+}
+
+const MAX_KEYWORDS = 100;
+const MAX_REQUIRED_PATTERNS = 10;
+// Patterns are checked against every incoming message, keep them short
+const MAX_PATTERN_LENGTH = 200;
+
+export class FilterProfileService {
+  /**
+   * Why a rules object cannot be saved, or null when it is valid
+   */
+  static getRulesError(rules: any): string | null {
+    if (rules === undefined || rules === null) return null;
+    if (typeof rules !== "object" || Array.isArray(rules)) {
+      return "rules must be an object";
+    }
+
+    for (const key of ["include_keywords", "exclude_keywords"] as const) {
+      const keywords = rules[key];
+      if (keywords === undefined) continue;
+      if (
+        !Array.isArray(keywords) ||
+        keywords.length > MAX_KEYWORDS ||
+        keywords.some(
+          (keyword) => typeof keyword !== "string" || !keyword.trim()
+        )
+      ) {
+        return `${key} must be an array of at most ${MAX_KEYWORDS} non-blank strings`;
+      }
+    }
+
+    if (rules.weights !== undefined) {
+      if (typeof rules.weights !== "object" || Array.isArray(rules.weights)) {
+        return "weights must be an object";
+      }
+      for (const [key, value] of Object.entries(rules.weights)) {
+        if (!(key in DEFAULT_FILTER_WEIGHTS)) {
+          return `Unknown weight "${key}"`;
+        }
+        if (typeof value !== "number" || value < 0 || value > 100) {
+          return `Weight "${key}" must be a number between 0 and 100`;
+        }
+      }
+    }
+
+    if (
+      rules.threshold !== undefined &&
+      (typeof rules.threshold !== "number" ||
+        rules.threshold < 0 ||
+        rules.threshold > 1)
+    ) {
+      return "threshold must be a number between 0 and 1";
+    }
+
+    const patterns = rules.required_patterns;
+    if (patterns !== undefined) {
+      if (!Array.isArray(patterns) || patterns.length > MAX_REQUIRED_PATTERNS) {
+        return `required_patterns must be an array of at most ${MAX_REQUIRED_PATTERNS} patterns`;
+      }
+      for (const pattern of patterns) {
+        if (
+          typeof pattern !== "string" ||
+          !pattern ||
+          pattern.length > MAX_PATTERN_LENGTH
+        ) {
+          return `Each required pattern must be a string of 1-${MAX_PATTERN_LENGTH} characters`;
+        }
+        if (pattern.split("|").some((text) => !text.trim())) {
+          return `Invalid required pattern "${pattern}"`;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Keep only known rule keys with a value. Call getRulesError first.
+   */
+  static sanitizeRules(rules: any): FilterRules {
+    const sanitized: FilterRules = {};
+    if (!rules) return sanitized;
+
+    if (rules.include_keywords?.length) {
+      sanitized.include_keywords = rules.include_keywords.map(
+        (keyword: string) => keyword.trim()
+      );
+    }
+    if (rules.exclude_keywords?.length) {
+      sanitized.exclude_keywords = rules.exclude_keywords.map(
+        (keyword: string) => keyword.trim()
+      );
+    }
+    if (rules.weights && Object.keys(rules.weights).length > 0) {
+      sanitized.weights = rules.weights as Partial<FilterWeights>;
+    }
+    if (rules.threshold !== undefined) {
+      sanitized.threshold = rules.threshold;
+    }
+    if (rules.required_patterns?.length) {
+      sanitized.required_patterns = rules.required_patterns;
+    }
+    return sanitized;
+  }
+
+  /**
+   * Filter a message with the user's active profiles. A message is kept when
+   * any profile accepts it; without profiles the default filter applies.
+   */
+  static filterWithProfiles(
+    message: string,
+    profiles: FilterProfile[]
+  ): ProfileFilterResult {
+    if (profiles.length === 0) {
+      return {
+        ...PropertyMessageFilter.filterMessage(message),
+        profile_id: null,
+      };
+    }
+
+    let best: ProfileFilterResult | null = null;
+    for (const profile of profiles) {
+      const result = {
+        ...PropertyMessageFilter.filterMessage(message, profile.rules || {}),
+        profile_id: profile.id,
+      };
+      if (result.isPropertyListing) return result;
+      if (!best || result.confidence > best.confidence) best = result;
+    }
+    return best!;
+  }
+
+  async listProfiles(userId: string): Promise<FilterProfile[]> {
+    const { data, error } = await supabaseAdmin
+      .from("filter_profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch filter profiles: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async listActiveProfiles(userId: string): Promise<FilterProfile[]> {
+    const { data, error } = await supabaseAdmin
+      .from("filter_profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("is_active", true)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch filter profiles: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getProfile(userId: string, id: string): Promise<FilterProfile | null> {
+    const { data, error } = await supabaseAdmin
+      .from("filter_profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch filter profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async createProfile(
+    userId: string,
+    profile: { name: string; rules: FilterRules; is_active?: boolean }
+  ): Promise<FilterProfile> {
+    const { data, error } = await supabaseAdmin
+      .from("filter_profiles")
+      .insert([
+        {
+          user_id: userId,
+          name: profile.name,
+          rules: profile.rules,
+          is_active: profile.is_active ?? true,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create filter profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateProfile(
+    userId: string,
+    id: string,
+    updates: Partial<Pick<FilterProfile, "name" | "rules" | "is_active">>
+  ): Promise<FilterProfile | null> {
+    const { data, error } = await supabaseAdmin
+      .from("filter_profiles")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update filter profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteProfile(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from("filter_profiles")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to delete filter profile: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+  }
+}
@@ -0,0 +1,121 @@
+import { normalizeText } from "../utils/fuzzy-match";
+import { LOCALITIES, Locality } from "../utils/localities";
+
+export interface GeocodeQuery {
+  location?: string | null;
+  area_name?: string | null;
+  city?: string | null;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  // Provider that produced the coordinates, stored as geocode_source
+  source: string;
+  matched_name?: string;
+}
+
+/**
+ * Turns a parsed property's location text into coordinates. Implementations
+ * return null when they cannot place the location.
+ */
+export interface Geocoder {
+  readonly provider: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Looks locality names up in the bundled gazetteer. No network access, so
+ * it is the default.
+ */
+export class GazetteerGeocoder implements Geocoder {
+  readonly provider = "gazetteer";
+  private entries: { key: string; locality: Locality }[];
+
+  constructor(localities: Locality[] = LOCALITIES) {
+    // Longest names first, so "andheri west" wins over "andheri"
+    this.entries = localities
+      .flatMap((locality) =>
+        [locality.name, ...(locality.aliases || [])].map((name) => ({
+          key: normalizeText(name),
+          locality,
+        }))
+      )
+      .sort((a, b) => b.key.length - a.key.length);
+  }
+
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    // The area name is the most specific field; the free-form location
+    // often mentions landmarks and other areas too
+    for (const text of [query.area_name, query.location]) {
+      const locality = this.findLocality(text, query.city);
+      if (locality) {
+        return {
+          latitude: locality.latitude,
+          longitude: locality.longitude,
+          source: this.provider,
+          matched_name: locality.name,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private findLocality(
+    text: string | null | undefined,
+    city: string | null | undefined
+  ): Locality | null {
+    const normalized = ` ${expandDirections(normalizeText(text))} `;
+    if (!normalized.trim()) return null;
+
+    const matches = this.entries.filter(({ key }) =>
+      normalized.includes(` ${key} `)
+    );
+    if (matches.length === 0) return null;
+
+    // Equally long names from different cities, such as a "camp" in both
+    // Pune and Bengaluru, are told apart by the parsed city when there is one
+    const longest = matches.filter(
+      ({ key }) => key.length === matches[0].key.length
+    );
+    const cityKey = normalizeText(city);
+    const inCity = cityKey
+      ? longest.find(({ locality }) => normalizeText(locality.city) === cityKey)
+      : undefined;
+
+    return (inCity || longest[0]).locality;
+  }
+}
+
+// "andheri w" -> "andheri west"
+function expandDirections(text: string): string {
+  return text.replace(/\bw\b/g, "west").replace(/\be\b/g, "east");
+}
+
+export type GeocoderProvider = "gazetteer" | "off";
+
+let geocoder: Geocoder | null | undefined;
+
+/**
+ * The geocoder configured by GEOCODER_PROVIDER, or null when geocoding is off
+ */
+export function getGeocoder(): Geocoder | null {
+  if (geocoder !== undefined) return geocoder;
+
+  const provider = (process.env.GEOCODER_PROVIDER || "gazetteer").toLowerCase();
+  switch (provider) {
+    case "gazetteer":
+      geocoder = new GazetteerGeocoder();
+      break;
+    case "off":
+      geocoder = null;
+      break;
+    default:
+      throw new Error(
+        `Unsupported GEOCODER_PROVIDER "${provider}" (expected gazetteer or off)`
+      );
+  }
+
+  return geocoder;
+}
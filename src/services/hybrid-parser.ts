@@ -0,0 +1,93 @@
+import logger from "../lib/logger";
+import { ListingParser, ParsedRealEstateResult } from "./listing-parser";
+import { RuleBasedListingParser } from "./rule-based-parser";
+
+/**
+ * - fallback: use the rules only when the LLM batch call fails
+ * - first_pass: accept confident rule results and send the rest to the LLM
+ */
+export type RulesMode = "fallback" | "first_pass";
+
+/**
+ * Wraps an LLM parser with the offline rule-based extractor so a provider
+ * outage does not lose a whole batch of listings.
+ */
+export class HybridListingParser implements ListingParser {
+  readonly provider: string;
+  readonly model: string;
+  private primary: ListingParser;
+  private rules: RuleBasedListingParser;
+  private mode: RulesMode;
+  private firstPassMinConfidence: number;
+
+  constructor(
+    primary: ListingParser,
+    mode: RulesMode,
+    firstPassMinConfidence = 0.6,
+    rules = new RuleBasedListingParser()
+  ) {
+    this.primary = primary;
+    this.rules = rules;
+    this.mode = mode;
+    this.firstPassMinConfidence = firstPassMinConfidence;
+    this.provider = primary.provider;
+    this.model = primary.model;
+  }
+
+  async parseRealEstateMessage(
+    messageText: string
+  ): Promise<ParsedRealEstateResult> {
+    const results = await this.parseRealEstateMessagesBatch([messageText]);
+    return results[0];
+  }
+
+  async parseRealEstateMessagesBatch(
+    messageTexts: string[]
+  ): Promise<ParsedRealEstateResult[]> {
+    const results: (ParsedRealEstateResult | undefined)[] = new Array(
+      messageTexts.length
+    );
+
+    if (this.mode === "first_pass") {
+      const ruleResults = await this.rules.parseRealEstateMessagesBatch(
+        messageTexts
+      );
+      ruleResults.forEach((result, index) => {
+        const confident = result.properties.some(
+          (property) =>
+            (property.parsing_confidence || 0) >= this.firstPassMinConfidence
+        );
+        if (confident) results[index] = result;
+      });
+    }
+
+    const pending = messageTexts
+      .map((_, index) => index)
+      .filter((index) => !results[index]);
+
+    if (pending.length > 0) {
+      const pendingTexts = pending.map((index) => messageTexts[index]);
+      let parsed: ParsedRealEstateResult[];
+
+      try {
+        parsed = await this.primary.parseRealEstateMessagesBatch(pendingTexts);
+      } catch (error) {
+        logger.warn(
+          {
+            provider: this.primary.provider,
+            messageCount: pendingTexts.length,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "LLM parser failed, falling back to rule-based extraction"
+        );
+        parsed = await this.rules.parseRealEstateMessagesBatch(pendingTexts);
+      }
+
+      pending.forEach((messageIndex, index) => {
+        results[messageIndex] = parsed[index];
+      });
+    }
+
+    return results as ParsedRealEstateResult[];
+  }
+}
@@ -0,0 +1,225 @@
+import {
+  CanonicalListing,
+  DatabaseService,
+  ParsedRealEstateProperty,
+} from "./database";
+import {
+  numbersClose,
+  rangesOverlap,
+  textSimilarity,
+} from "../utils/fuzzy-match";
+
+const DEFAULT_MATCH_THRESHOLD = 0.75;
+const DEFAULT_WINDOW_DAYS = 30;
+
+// How much each field counts towards a match when both sides have it
+const FIELD_WEIGHTS = {
+  property_name: 0.25,
+  location: 0.25,
+  bedrooms: 0.1,
+  price: 0.2,
+  area_sqft: 0.15,
+  floor_number: 0.05,
+};
+
+// Brokers round prices and areas differently, so allow some slack
+const PRICE_TOLERANCE = 0.1;
+const AREA_TOLERANCE = 0.08;
+
+/**
+ * Clusters parsed properties into canonical listings, so the same flat posted
+ * by several brokers in several groups is one listing with many sources.
+ */
+export class ListingDeduplicator {
+  private database: DatabaseService;
+  private matchThreshold: number;
+  private windowDays: number;
+
+  constructor(database: DatabaseService = new DatabaseService()) {
+    this.database = database;
+    this.matchThreshold =
+      Number(process.env.DEDUP_MATCH_THRESHOLD) || DEFAULT_MATCH_THRESHOLD;
+    this.windowDays =
+      Number(process.env.DEDUP_WINDOW_DAYS) || DEFAULT_WINDOW_DAYS;
+  }
+
+  /**
+   * Link a saved property to its canonical listing, creating one if no
+   * existing listing matches. Returns the canonical listing id.
+   */
+  async assignCanonicalListing(
+    property: ParsedRealEstateProperty
+  ): Promise<string> {
+    const since = new Date(
+      Date.now() - this.windowDays * 24 * 60 * 60 * 1000
+    ).toISOString();
+    const candidates = await this.database.findCanonicalListingCandidates(
+      property,
+      since
+    );
+
+    let bestMatch: CanonicalListing | null = null;
+    let bestScore = 0;
+    for (const candidate of candidates) {
+      const score = this.scoreMatch(property, candidate);
+      if (score > bestScore) {
+        bestScore = score;
+        bestMatch = candidate;
+      }
+    }
+
+    const now = new Date().toISOString();
+
+    if (bestMatch && bestScore >= this.matchThreshold) {
+      await this.database.updateCanonicalListing(
+        bestMatch.id,
+        this.mergeIntoListing(bestMatch, property, now)
+      );
+      await this.database.setPropertyCanonicalListing(
+        property.id,
+        bestMatch.id
+      );
+      return bestMatch.id;
+    }
+
+    const listing = await this.database.createCanonicalListing({
+      listing_type: property.listing_type,
+      property_type: property.property_type || null,
+      property_name: property.property_name || null,
+      location: property.location || null,
+      area_name: property.area_name || null,
+      city: property.city || null,
+      bedrooms: property.bedrooms || null,
+      area_sqft: property.area_sqft || null,
+      floor_number: property.floor_number ?? null,
+      price_min: property.price_min ?? null,
+      price_max: property.price_max ?? null,
+      price_period: property.price_period || null,
+      first_seen_at: now,
+      last_seen_at: now,
+    });
+    await this.database.setPropertyCanonicalListing(property.id, listing.id);
+    return listing.id;
+  }
+
+  /**
+   * Score between 0 and 1 for how likely a property is the same as a listing.
+   * Hard conflicts (different BHK, area or floor) rule a match out entirely.
+   */
+  scoreMatch(
+    property: ParsedRealEstateProperty,
+    listing: CanonicalListing
+  ): number {
+    if (property.listing_type !== listing.listing_type) return 0;
+    if (
+      property.price_period &&
+      listing.price_period &&
+      property.price_period !== listing.price_period
+    ) {
+      return 0;
+    }
+
+    let score = 0;
+    let weight = 0;
+
+    if (property.bedrooms && listing.bedrooms) {
+      if (property.bedrooms !== listing.bedrooms) return 0;
+      score += FIELD_WEIGHTS.bedrooms;
+      weight += FIELD_WEIGHTS.bedrooms;
+    }
+
+    if (property.area_sqft && listing.area_sqft) {
+      if (!numbersClose(property.area_sqft, listing.area_sqft, AREA_TOLERANCE))
+        return 0;
+      score += FIELD_WEIGHTS.area_sqft;
+      weight += FIELD_WEIGHTS.area_sqft;
+    }
+
+    if (
+      property.floor_number !== undefined &&
+      property.floor_number !== null &&
+      listing.floor_number !== undefined &&
+      listing.floor_number !== null
+    ) {
+      if (property.floor_number !== listing.floor_number) return 0;
+      score += FIELD_WEIGHTS.floor_number;
+      weight += FIELD_WEIGHTS.floor_number;
+    }
+
+    if (
+      property.price_min &&
+      property.price_max &&
+      listing.price_min &&
+      listing.price_max
+    ) {
+      const overlaps = rangesOverlap(
+        [property.price_min, property.price_max],
+        [listing.price_min, listing.price_max],
+        PRICE_TOLERANCE
+      );
+      score += overlaps ? FIELD_WEIGHTS.price : 0;
+      weight += FIELD_WEIGHTS.price;
+    }
+
+    if (property.property_name && listing.property_name) {
+      score +=
+        FIELD_WEIGHTS.property_name *
+        textSimilarity(property.property_name, listing.property_name);
+      weight += FIELD_WEIGHTS.property_name;
+    }
+
+    const propertyLocation = this.locationText(property);
+    const listingLocation = this.locationText(listing);
+    if (propertyLocation && listingLocation) {
+      score +=
+        FIELD_WEIGHTS.location *
+        textSimilarity(propertyLocation, listingLocation);
+      weight += FIELD_WEIGHTS.location;
+    } else {
+      // Without any location two "2 BHK, 1 Cr" posts could be anywhere
+      return 0;
+    }
+
+    // Location alone is not enough evidence
+    if (weight <= FIELD_WEIGHTS.location) return 0;
+
+    return Math.round((score / weight) * 100) / 100;
+  }
+
+  private locationText(
+    record: Pick<CanonicalListing, "location" | "area_name">
+  ): string {
+    return [record.area_name, record.location].filter(Boolean).join(" ");
+  }
+
+  /**
+   * Fill in fields the listing was missing and widen its price range
+   */
+  private mergeIntoListing(
+    listing: CanonicalListing,
+    property: ParsedRealEstateProperty,
+    seenAt: string
+  ): Partial<CanonicalListing> {
+    const prices = [
+      listing.price_min,
+      listing.price_max,
+      property.price_min,
+      property.price_max,
+    ].filter((price): price is number => typeof price === "number");
+
+    return {
+      property_type: listing.property_type || property.property_type || null,
+      property_name: listing.property_name || property.property_name || null,
+      location: listing.location || property.location || null,
+      area_name: listing.area_name || property.area_name || null,
+      city: listing.city || property.city || null,
+      bedrooms: listing.bedrooms || property.bedrooms || null,
+      area_sqft: listing.area_sqft || property.area_sqft || null,
+      floor_number: listing.floor_number ?? property.floor_number ?? null,
+      price_min: prices.length > 0 ? Math.min(...prices) : null,
+      price_max: prices.length > 0 ? Math.max(...prices) : null,
+      price_period: listing.price_period || property.price_period || null,
+      last_seen_at: seenAt,
+    };
+  }
+}
@@ -0,0 +1,345 @@
+import { PricePeriod, PriceUnit } from "../utils/price-normalizer";
+import { detectLanguage, LANGUAGE_NAMES } from "../utils/language-packs";
+
+// Which extractor produced a parsed property
+export type ExtractionMethod = "llm" | "rules";
+
+export interface ParsedRealEstateData {
+  property_name?: string;
+  property_type?: string;
+  listing_type: "sale" | "rental" | "lease";
+  price?: string;
+  price_numeric?: number;
+  // Filled in by the price normalizer after parsing
+  price_min?: number | null;
+  price_max?: number | null;
+  price_unit?: PriceUnit | null;
+  price_period?: PricePeriod | null;
+  price_per_sqft?: number | null;
+  deposit_amount?: number | null;
+  price_negotiable?: boolean | null;
+  location?: string;
+  area_name?: string;
+  city?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  area_sqft?: number;
+  floor_number?: number;
+  total_floors?: number;
+  amenities?: string[];
+  furnishing?: "furnished" | "semi-furnished" | "unfurnished";
+  parking?: boolean;
+  parking_count?: number;
+  contact_info?: string;
+  availability_date?: string;
+  description?: string;
+  parsing_confidence?: number;
+  extraction_method?: ExtractionMethod;
+  // Filled in from a location pin or the geocoder after parsing
+  latitude?: number | null;
+  longitude?: number | null;
+  geocode_source?: string | null;
+}
+
+export interface ParsedRealEstateResult {
+  properties: ParsedRealEstateData[];
+  rawResponse: any;
+}
+
+/**
+ * Common interface for everything that turns WhatsApp message text into
+ * structured listings, so the parsing job does not depend on one vendor.
+ */
+export interface ListingParser {
+  readonly provider: string;
+  readonly model: string;
+  parseRealEstateMessage(messageText: string): Promise<ParsedRealEstateResult>;
+  parseRealEstateMessagesBatch(
+    messageTexts: string[]
+  ): Promise<ParsedRealEstateResult[]>;
+}
+
+export interface ChatMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+export interface ChatCompletionResult {
+  content: string | null | undefined;
+  rawResponse: any;
+}
+
+/**
+ * Base class for chat-completion backends. Owns the prompt and the
+ * validation of the JSON response; subclasses only talk to their API.
+ */
+export abstract class LlmListingParser implements ListingParser {
+  abstract readonly provider: string;
+  abstract readonly model: string;
+
+  protected abstract createChatCompletion(
+    messages: ChatMessage[]
+  ): Promise<ChatCompletionResult>;
+
+  async parseRealEstateMessage(
+    messageText: string
+  ): Promise<ParsedRealEstateResult> {
+    // For backward compatibility, wrap single message in batch
+    const results = await this.parseRealEstateMessagesBatch([messageText]);
+    return results[0];
+  }
+
+  async parseRealEstateMessagesBatch(
+    messageTexts: string[]
+  ): Promise<ParsedRealEstateResult[]> {
+    try {
+      const prompt = this.createBatchParsingPrompt(messageTexts);
+
+      const completion = await this.createChatCompletion([
+        {
+          role: "system",
+          content: `You are an expert real estate message parser. Parse WhatsApp messages about real estate properties (both sale and rental) and extract structured data. Always respond with valid JSON only, no additional text.`,
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ]);
+
+      const responseText = completion.content;
+      if (!responseText) {
+        throw new Error(`No response from ${this.provider} API`);
+      }
+
+      const parsedResponse = JSON.parse(responseText);
+
+      // Validate the batch response structure
+      if (!parsedResponse.results || !Array.isArray(parsedResponse.results)) {
+        throw new Error(
+          "Invalid batch response format - expected results array"
+        );
+      }
+
+      if (parsedResponse.results.length !== messageTexts.length) {
+        throw new Error(
+          `Expected ${messageTexts.length} results, got ${parsedResponse.results.length}`
+        );
+      }
+
+      // Validate and normalize each parsed result
+      const results = parsedResponse.results.map(
+        (messageResult: any, index: number) => {
+          try {
+            // Handle the new nested structure with properties array
+            const properties = messageResult.properties || [];
+            const normalizedProperties = properties.map((propertyData: any) => {
+              return this.validateAndNormalizeData(propertyData);
+            });
+
+            return {
+              properties: normalizedProperties,
+              rawResponse: completion.rawResponse,
+            };
+          } catch (error) {
+            console.error(`Error validating result ${index}:`, error);
+            // Return a fallback result for invalid data
+            return {
+              properties: [],
+              rawResponse: completion.rawResponse,
+            };
+          }
+        }
+      );
+
+      return results;
+    } catch (error) {
+      console.error(
+        `Error parsing messages batch with ${this.provider}:`,
+        error
+      );
+      throw new Error(
+        `Failed to parse message batch: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  private createBatchParsingPrompt(messageTexts: string[]): string {
+    const messagesWithIndex = messageTexts
+      .map(
+        (text, index) =>
+          `Message ${index + 1} (language: ${
+            LANGUAGE_NAMES[detectLanguage(text)]
+          }):
+"""
+${text}
+"""
+`
+      )
+      .join("\n");
+
+    return `
+Parse these ${messageTexts.length} WhatsApp real estate messages and extract structured data for each. Return a JSON object with the following structure:
+
+{
+  "results": [
+    {
+      "properties": [
+        {
+          "property_name": "string or null",
+          "property_type": "apartment|house|villa|commercial|office|shop|warehouse|land|other or null",
+          "listing_type": "sale|rental|lease",
+          "price": "string or null (original price text)",
+          "price_numeric": "number or null (numeric value in rupees for sorting)",
+          "location": "string or null (full address/location)",
+          "area_name": "string or null (neighborhood/area name)",
+          "city": "string or null",
+          "bedrooms": "number or null",
+          "bathrooms": "number or null",
+          "area_sqft": "number or null",
+          "floor_number": "number or null",
+          "total_floors": "number or null",
+          "amenities": ["array of strings or null"],
+          "furnishing": "furnished|semi-furnished|unfurnished or null",
+          "parking": "boolean or null (true if parking available)",
+          "parking_count": "number or null (number of parking spaces)",
+          "contact_info": "string or null (phone/email/contact details)",
+          "availability_date": "string or null (YYYY-MM-DD format)",
+          "description": "string or null (additional details)",
+          "parsing_confidence": "number between 0 and 1"
+        }
+        // If both sale and rental are mentioned, create separate objects with different listing_type and prices
+      ]
+    }
+    // ... repeat for each message
+  ]
+}
+
+Messages to parse:
+${messagesWithIndex}
+
+Guidelines:
+- Process each message in order and return results in the same order
+- If a message contains both sale and rental information, create TWO separate property objects with different listing_type and prices
+- If a message is not about real estate, return empty properties array
+- If a message is a requirement (someone looking for a property, e.g. "Required 2BHK in Andheri budget 60k"), return empty properties array; requirements are not listings
+- Extract property names from common patterns: "Building name:", "Project:", "Complex:", "Tower:", "Society:", "Residence:", or building names mentioned before addresses
+- Extract contact information (phone numbers, emails) into contact_info
+- Convert area measurements to square feet if possible
+- Identify amenities like gym, pool, parking, security, etc.
+- Determine if it's for sale, rental, or lease based on context
+- Sale: Property being sold permanently
+- Rental: Property being rented (monthly/yearly)
+- Lease: Property being leased (usually longer term, commercial or residential)
+- Set parsing_confidence based on how clear and complete the information is
+- Extract numeric values from price text (e.g., "₹50,000" -> price_numeric: 50000)
+- Extract parking information: set parking=true if parking is available, parking_count=number of spaces
+- All prices are assumed to be in Indian Rupees (INR)
+- Messages may be in Hindi, Marathi, Gujarati or Hinglish (Hindi in Latin script). Always return field values in English, write names and localities in Latin script (e.g. "अंधेरी वेस्ट" -> "Andheri West") and convert Devanagari/Gujarati numerals to digits (e.g. "८५ लाख" -> price_numeric: 8500000)
+- Common terms: किराया/भाडे/ભાડે/kiraya = rent, बिक्री/विक्री/વેચાણ/bechna = sale, मंजिल/मजला/માળ = floor, सदनिका = flat
+- Be conservative with parsing_confidence - only use high values (>0.8) when information is very clear
+- For dual listings (sale + rental), copy all property details but change listing_type and price accordingly
+- Look for property names in these patterns: "Building: XYZ", "Project: ABC", "Tower: DEF", "Society: GHI", "Complex: JKL", "Residence: MNO"
+- Property names might also appear as standalone words before location (e.g., "Oberoi Sky City, Borivali")
+- The results array must contain exactly ${messageTexts.length} objects in the same order as the input messages
+
+Return only the JSON object, no additional text.
+`;
+  }
+
+  private validateAndNormalizeData(data: any): ParsedRealEstateData {
+    // Ensure required fields
+    if (
+      !data.listing_type ||
+      !["sale", "rental", "lease"].includes(data.listing_type)
+    ) {
+      data.listing_type = null;
+      data.parsing_confidence = 0;
+    }
+
+    // Normalize property type
+    if (data.property_type) {
+      const validTypes = [
+        "apartment",
+        "house",
+        "villa",
+        "commercial",
+        "office",
+        "shop",
+        "warehouse",
+        "land",
+        "other",
+      ];
+      if (!validTypes.includes(data.property_type.toLowerCase())) {
+        data.property_type = "other";
+      }
+    }
+
+    // Normalize furnishing
+    if (data.furnishing) {
+      const validFurnishing = ["furnished", "semi-furnished", "unfurnished"];
+      if (!validFurnishing.includes(data.furnishing.toLowerCase())) {
+        data.furnishing = null;
+      }
+    }
+
+    // Ensure confidence is between 0 and 1
+    if (data.parsing_confidence > 1) {
+      data.parsing_confidence = 1;
+    } else if (data.parsing_confidence < 0) {
+      data.parsing_confidence = 0;
+    }
+
+    // Prices can be fractional and may come back as "1,25,000"
+    if (data.price_numeric !== null && data.price_numeric !== undefined) {
+      const price = Number(String(data.price_numeric).replace(/,/g, ""));
+      data.price_numeric = isNaN(price) ? null : price;
+    }
+
+    // Clean up numeric fields
+    const numericFields = [
+      "bedrooms",
+      "bathrooms",
+      "area_sqft",
+      "floor_number",
+      "total_floors",
+      "parking_count",
+    ];
+    numericFields.forEach((field) => {
+      if (data[field] !== null && data[field] !== undefined) {
+        const num = parseInt(data[field]);
+        data[field] = isNaN(num) ? null : num;
+      }
+    });
+
+    // Handle parking field - convert parking count to boolean and extract count
+    if (data.parking !== null && data.parking !== undefined) {
+      if (typeof data.parking === "string") {
+        const parkingNum = parseInt(data.parking);
+        if (!isNaN(parkingNum)) {
+          data.parking_count = parkingNum;
+          data.parking = parkingNum > 0;
+        } else {
+          data.parking = null;
+          data.parking_count = null;
+        }
+      } else if (typeof data.parking === "number") {
+        data.parking_count = data.parking;
+        data.parking = data.parking > 0;
+      } else if (typeof data.parking !== "boolean") {
+        data.parking = null;
+        data.parking_count = null;
+      }
+    }
+
+    // Ensure amenities is an array
+    if (data.amenities && !Array.isArray(data.amenities)) {
+      data.amenities = null;
+    }
+
+    data.extraction_method = "llm";
+
+    return data;
+  }
+}
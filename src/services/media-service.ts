@@ -0,0 +1,168 @@
+import { WASocket, downloadMediaMessage } from "@whiskeysockets/baileys";
+import crypto from "crypto";
+import path from "path";
+import { BlobStore, getBlobStore } from "../lib/blob-store";
+import logger from "../lib/logger";
+import { supabaseAdmin, WhatsAppMessageAttachment } from "../lib/supabase";
+
+type MediaType = WhatsAppMessageAttachment["media_type"];
+
+interface MediaContent {
+  mediaType: MediaType;
+  content: any;
+}
+
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024; // 25 MB
+
+export class MediaService {
+  private blobStore: BlobStore;
+  private maxBytes: number;
+
+  constructor(blobStore: BlobStore = getBlobStore()) {
+    this.blobStore = blobStore;
+    this.maxBytes = Number(process.env.MEDIA_MAX_BYTES) || DEFAULT_MAX_BYTES;
+  }
+
+  /**
+   * Find the downloadable media part of a WhatsApp message, if any
+   */
+  static getMediaContent(message: any): MediaContent | null {
+    if (!message) return null;
+
+    if (message.imageMessage) {
+      return { mediaType: "image", content: message.imageMessage };
+    }
+
+    if (message.videoMessage) {
+      return { mediaType: "video", content: message.videoMessage };
+    }
+
+    if (message.documentMessage) {
+      return { mediaType: "document", content: message.documentMessage };
+    }
+
+    // Documents sent with a caption are wrapped in another message
+    if (message.documentWithCaptionMessage?.message?.documentMessage) {
+      return {
+        mediaType: "document",
+        content: message.documentWithCaptionMessage.message.documentMessage,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Download the media of a stored message through Baileys, write it to the
+   * blob store and record it in whatsapp_message_attachments
+   */
+  async storeAttachment(
+    msg: any,
+    sock: WASocket,
+    messageId: string,
+    userId: string
+  ): Promise<WhatsAppMessageAttachment | null> {
+    const media = MediaService.getMediaContent(msg.message);
+    if (!media) return null;
+
+    const declaredSize = Number(media.content.fileLength) || 0;
+    if (declaredSize > this.maxBytes) {
+      logger.warn(
+        {
+          userId,
+          messageId,
+          mediaType: media.mediaType,
+          fileSize: declaredSize,
+          maxBytes: this.maxBytes,
+        },
+        "Skipping media attachment larger than the configured limit"
+      );
+      return null;
+    }
+
+    try {
+      const buffer = (await downloadMediaMessage(
+        msg,
+        "buffer",
+        {},
+        { logger, reuploadRequest: sock.updateMediaMessage }
+      )) as Buffer;
+
+      const sha256 = crypto.createHash("sha256").update(buffer).digest("hex");
+      const mimeType: string | null = media.content.mimetype || null;
+      const fileName: string | null = media.content.fileName || null;
+      const storageKey = `${userId}/${messageId}/${sha256}${this.getExtension(
+        fileName,
+        mimeType
+      )}`;
+
+      await this.blobStore.put(storageKey, buffer, mimeType || undefined);
+
+      const attachment: WhatsAppMessageAttachment = {
+        message_id: messageId,
+        user_id: userId,
+        media_type: media.mediaType,
+        mime_type: mimeType,
+        file_name: fileName,
+        file_size: buffer.length,
+        caption: media.content.caption || null,
+        storage_driver: this.blobStore.driver,
+        storage_key: storageKey,
+        sha256,
+      };
+
+      const { data, error } = await supabaseAdmin
+        .from("whatsapp_message_attachments")
+        .insert([attachment])
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save attachment: ${error.message}`);
+      }
+
+      logger.info(
+        {
+          userId,
+          messageId,
+          attachmentId: data.id,
+          mediaType: media.mediaType,
+          fileSize: buffer.length,
+        },
+        "Media attachment stored"
+      );
+
+      return data;
+    } catch (error) {
+      logger.error(
+        {
+          userId,
+          messageId,
+          mediaType: media.mediaType,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to store media attachment"
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Read the stored file of an attachment back from its blob store
+   */
+  static async readAttachment(
+    attachment: WhatsAppMessageAttachment
+  ): Promise<Buffer> {
+    return getBlobStore(attachment.storage_driver).get(attachment.storage_key);
+  }
+
+  private getExtension(fileName: string | null, mimeType: string | null) {
+    if (fileName && path.extname(fileName)) {
+      return path.extname(fileName).toLowerCase();
+    }
+
+    // e.g. "image/jpeg" -> ".jpeg", "application/pdf; codecs=..." -> ".pdf"
+    const subtype = mimeType?.split("/")[1]?.split(";")[0]?.trim();
+    return subtype && /^[a-z0-9.+-]+$/i.test(subtype) ? `.${subtype}` : "";
+  }
+}
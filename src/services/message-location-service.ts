@@ -0,0 +1,129 @@
+import { DatabaseService } from "./database";
+import logger from "../lib/logger";
+
+// Brokers send the pin right before or after the listing text
+const ATTACH_WINDOW_MS = 10 * 60 * 1000;
+
+export interface MessageLocation {
+  latitude: number;
+  longitude: number;
+  name?: string | null;
+  address?: string | null;
+}
+
+/**
+ * Pairs WhatsApp location pins with the listing sent next to them by the same
+ * sender in the same group.
+ */
+export class MessageLocationService {
+  private database: DatabaseService;
+  // Pins that arrived before their listing, keyed by group and sender
+  private pending = new Map<
+    string,
+    { location: MessageLocation; sentAt: number }
+  >();
+
+  constructor(database: DatabaseService = new DatabaseService()) {
+    this.database = database;
+  }
+
+  /**
+   * Coordinates of a location or live location message, if it is one
+   */
+  static getLocationContent(message: any): MessageLocation | null {
+    const content = message?.locationMessage || message?.liveLocationMessage;
+    if (
+      typeof content?.degreesLatitude !== "number" ||
+      typeof content?.degreesLongitude !== "number"
+    ) {
+      return null;
+    }
+
+    return {
+      latitude: content.degreesLatitude,
+      longitude: content.degreesLongitude,
+      name: content.name || null,
+      address: content.address || null,
+    };
+  }
+
+  /**
+   * Attach a pin to the sender's latest stored listing. When there is none
+   * yet the pin is held for the listing that follows. Returns the id of the
+   * message the pin was attached to.
+   */
+  async attachLocation(
+    userId: string,
+    groupId: string,
+    sender: string,
+    sentAt: Date,
+    location: MessageLocation
+  ): Promise<string | null> {
+    const message = await this.database.findLatestMessageFromSender(
+      userId,
+      groupId,
+      sender,
+      new Date(sentAt.getTime() - ATTACH_WINDOW_MS).toISOString(),
+      sentAt.toISOString()
+    );
+
+    if (!message) {
+      this.prunePending(sentAt.getTime());
+      this.pending.set(this.pendingKey(groupId, sender), {
+        location,
+        sentAt: sentAt.getTime(),
+      });
+      return null;
+    }
+
+    await this.database.setMessageLocation(
+      message.id,
+      location.latitude,
+      location.longitude
+    );
+    // Already parsed: a pin beats anything the geocoder guessed
+    const updated = await this.database.setCoordinatesForMessage(
+      message.id,
+      location.latitude,
+      location.longitude,
+      "message_location"
+    );
+
+    logger.info(
+      { messageId: message.id, updatedProperties: updated },
+      "Attached location pin to listing"
+    );
+
+    return message.id;
+  }
+
+  /**
+   * A pin the same sender sent shortly before this listing, if any
+   */
+  takePendingLocation(
+    groupId: string,
+    sender: string,
+    sentAt: Date
+  ): MessageLocation | null {
+    const key = this.pendingKey(groupId, sender);
+    const entry = this.pending.get(key);
+    if (!entry) return null;
+
+    this.pending.delete(key);
+    return sentAt.getTime() - entry.sentAt <= ATTACH_WINDOW_MS
+      ? entry.location
+      : null;
+  }
+
+  private prunePending(now: number): void {
+    for (const [key, entry] of this.pending) {
+      if (now - entry.sentAt > ATTACH_WINDOW_MS) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  private pendingKey(groupId: string, sender: string): string {
+    return `${groupId}|${sender}`;
+  }
+}
@@ -0,0 +1,148 @@
+import { DatabaseService, WhatsAppMessage } from "./database";
+import { PropertyMessageFilter } from "../utils/property-filter";
+import logger from "../lib/logger";
+
+/**
+ * Applies edits, deletions ("delete for everyone") and reactions to messages
+ * that were already stored. Edits and deletions keep a revision history and
+ * retire the properties parsed from the old text.
+ */
+export class MessageRevisionService {
+  private database: DatabaseService;
+
+  constructor(database: DatabaseService = new DatabaseService()) {
+    this.database = database;
+  }
+
+  /**
+   * Store the new text and send the message back through parsing. Returns
+   * the updated message, or null if we never stored the original.
+   */
+  async applyEdit(
+    userId: string,
+    groupId: string,
+    waMessageId: string,
+    newText: string,
+    newMeta: any,
+    editedAt: Date = new Date()
+  ): Promise<WhatsAppMessage | null> {
+    const message = await this.database.findMessageByWhatsAppId(
+      userId,
+      groupId,
+      waMessageId
+    );
+    if (!message || message.deleted_at) return null;
+    if (message.message_text === newText) return message;
+
+    await this.database.recordMessageRevision(
+      message.id,
+      "edit",
+      message.message_text,
+      newText
+    );
+
+    const filterResult = PropertyMessageFilter.filterMessage(newText);
+    await this.database.updateMessage(message.id, {
+      message_text: newText,
+      message_meta: newMeta,
+      message_intent: filterResult.intent,
+      edited_at: editedAt.toISOString(),
+    });
+
+    const superseded = await this.database.setListingStatusForMessage(
+      message.id,
+      "superseded"
+    );
+    await this.database.deleteRequirementsForMessage(message.id);
+
+    // An edit that turns the post into chatter has nothing left to parse
+    if (filterResult.isPropertyListing) {
+      await this.database.requeueMessage(message.id);
+    }
+
+    logger.info(
+      {
+        messageId: message.id,
+        supersededProperties: superseded,
+        requeued: filterResult.isPropertyListing,
+      },
+      "Applied message edit"
+    );
+
+    return {
+      ...message,
+      message_text: newText,
+      message_meta: newMeta,
+      message_intent: filterResult.intent,
+      edited_at: editedAt.toISOString(),
+    };
+  }
+
+  /**
+   * The sender deleted the message for everyone: the listing is withdrawn
+   */
+  async applyRevoke(
+    userId: string,
+    groupId: string,
+    waMessageId: string,
+    deletedAt: Date = new Date()
+  ): Promise<WhatsAppMessage | null> {
+    const message = await this.database.findMessageByWhatsAppId(
+      userId,
+      groupId,
+      waMessageId
+    );
+    if (!message || message.deleted_at) return null;
+
+    await this.database.recordMessageRevision(
+      message.id,
+      "delete",
+      message.message_text,
+      null
+    );
+    await this.database.updateMessage(message.id, {
+      deleted_at: deletedAt.toISOString(),
+    });
+
+    const withdrawn = await this.database.setListingStatusForMessage(
+      message.id,
+      "withdrawn"
+    );
+    await this.database.deleteRequirementsForMessage(message.id);
+
+    logger.info(
+      { messageId: message.id, withdrawnProperties: withdrawn },
+      "Applied message deletion"
+    );
+
+    return { ...message, deleted_at: deletedAt.toISOString() };
+  }
+
+  /**
+   * Keep the latest reaction per participant; an empty reaction removes it
+   */
+  async applyReaction(
+    userId: string,
+    groupId: string,
+    waMessageId: string,
+    reactorJid: string,
+    emoji: string
+  ): Promise<WhatsAppMessage | null> {
+    const message = await this.database.findMessageByWhatsAppId(
+      userId,
+      groupId,
+      waMessageId
+    );
+    if (!message) return null;
+
+    const reactions = { ...(message.reactions || {}) };
+    if (emoji) {
+      reactions[reactorJid] = emoji;
+    } else {
+      delete reactions[reactorJid];
+    }
+
+    await this.database.updateMessage(message.id, { reactions });
+    return { ...message, reactions };
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  ChatCompletionResult,
+  ChatMessage,
+  LlmListingParser,
+} from "./listing-parser";
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = "llama3.1";
+
+/**
+ * Parser for any server implementing the OpenAI chat completions API,
+ * e.g. OpenAI itself, a local Ollama (`/v1`) or a llama.cpp server.
+ */
+export class OpenAICompatibleParser extends LlmListingParser {
+  readonly provider = "openai";
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(
+    options: { baseUrl?: string; apiKey?: string; model?: string } = {}
+  ) {
+    super();
+    this.baseUrl = (
+      options.baseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL
+    ).replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.model = options.model || DEFAULT_OPENAI_COMPATIBLE_MODEL;
+  }
+
+  protected async createChatCompletion(
+    messages: ChatMessage[]
+  ): Promise<ChatCompletionResult> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    // Local servers usually don't need a key
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: 0.1,
+        max_tokens: 4000,
+        response_format: { type: "json_object" },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Chat completion request failed with status ${
+          response.status
+        }: ${await response.text()}`
+      );
+    }
+
+    const completion: any = await response.json();
+
+    return {
+      content: completion.choices?.[0]?.message?.content,
+      rawResponse: completion,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { FakeListingParser } from "./fake-parser";
+import { GroqRealEstateParser } from "./groq-parser";
+import { HybridListingParser, RulesMode } from "./hybrid-parser";
+import { ListingParser } from "./listing-parser";
+import { OpenAICompatibleParser } from "./openai-compatible-parser";
+
+export type ListingParserProvider = "groq" | "openai" | "fake";
+
+export interface ListingParserConfig {
+  provider: ListingParserProvider;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  rulesMode: RulesMode | "off";
+  rulesMinConfidence: number;
+}
+
+/**
+ * Read the parser configuration of this deployment from the environment
+ */
+export function getListingParserConfig(): ListingParserConfig {
+  const provider = (process.env.LLM_PROVIDER || "groq").toLowerCase();
+
+  if (!["groq", "openai", "fake"].includes(provider)) {
+    throw new Error(
+      `Unsupported LLM_PROVIDER "${provider}" (expected groq, openai or fake)`
+    );
+  }
+
+  const rulesMode = (process.env.PARSER_RULES_MODE || "fallback").toLowerCase();
+
+  if (!["off", "fallback", "first_pass"].includes(rulesMode)) {
+    throw new Error(
+      `Unsupported PARSER_RULES_MODE "${rulesMode}" (expected off, fallback or first_pass)`
+    );
+  }
+
+  return {
+    provider: provider as ListingParserProvider,
+    model: process.env.LLM_MODEL || undefined,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    apiKey: process.env.LLM_API_KEY || undefined,
+    rulesMode: rulesMode as ListingParserConfig["rulesMode"],
+    rulesMinConfidence:
+      parseFloat(process.env.PARSER_RULES_MIN_CONFIDENCE || "") || 0.6,
+  };
+}
+
+export function createListingParser(
+  config: ListingParserConfig = getListingParserConfig()
+): ListingParser {
+  const parser = createProviderParser(config);
+
+  if (config.rulesMode === "off") {
+    return parser;
+  }
+
+  return new HybridListingParser(
+    parser,
+    config.rulesMode,
+    config.rulesMinConfidence
+  );
+}
+
+function createProviderParser(config: ListingParserConfig): ListingParser {
+  switch (config.provider) {
+    case "groq":
+      return new GroqRealEstateParser({
+        apiKey: config.apiKey,
+        model: config.model,
+      });
+    case "openai":
+      return new OpenAICompatibleParser({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+      });
+    case "fake":
+      return new FakeListingParser();
+  }
+}
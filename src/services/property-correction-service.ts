@@ -0,0 +1,238 @@
+import { ValidationError } from "../errors/validation-error";
+import { eventBus } from "../lib/event-bus";
+import logger from "../lib/logger";
+import {
+  DatabaseService,
+  ParsedRealEstateProperty,
+  PropertyCorrection,
+} from "./database";
+import { ENUM_FILTER_VALUES } from "./saved-search-service";
+
+type FieldType = "string" | "number" | "integer" | "boolean" | "string[]";
+
+const FIELD_TYPE_NAMES: Record<FieldType, string> = {
+  string: "a string",
+  number: "a number",
+  integer: "an integer",
+  boolean: "a boolean",
+  "string[]": "an array of strings",
+};
+
+// Parsed fields a person may correct, with the JSON type each one takes
+export const EDITABLE_PROPERTY_FIELDS: Record<string, FieldType> = {
+  property_name: "string",
+  property_type: "string",
+  listing_type: "string",
+  price: "string",
+  price_numeric: "integer",
+  price_min: "integer",
+  price_max: "integer",
+  price_unit: "string",
+  price_period: "string",
+  price_per_sqft: "number",
+  deposit_amount: "integer",
+  price_negotiable: "boolean",
+  location: "string",
+  area_name: "string",
+  city: "string",
+  bedrooms: "integer",
+  bathrooms: "integer",
+  area_sqft: "integer",
+  floor_number: "integer",
+  total_floors: "integer",
+  amenities: "string[]",
+  furnishing: "string",
+  parking: "boolean",
+  parking_count: "integer",
+  contact_info: "string",
+  availability_date: "string",
+  description: "string",
+  latitude: "number",
+  longitude: "number",
+};
+
+// Numeric fields that may be negative; a basement is floor -1
+const SIGNED_FIELDS = ["floor_number", "latitude", "longitude"];
+
+// Same values the search filters accept, so a corrected property stays findable
+const ENUM_FIELDS = ["listing_type", "property_type", "price_period"] as const;
+const FURNISHING_TYPES = ["furnished", "semi-furnished", "unfurnished"];
+
+export interface CorrectionResult {
+  property: ParsedRealEstateProperty;
+  corrections: PropertyCorrection[];
+}
+
+/**
+ * Applies field-level corrections to parsed properties. Every changed field
+ * is recorded in property_corrections and locked, so re-parsing the source
+ * message never overwrites it.
+ */
+export class PropertyCorrectionService {
+  private database: DatabaseService;
+
+  constructor(database: DatabaseService = new DatabaseService()) {
+    this.database = database;
+  }
+
+  /**
+   * Why a set of updates cannot be applied, or null when it is valid
+   */
+  static getUpdatesError(updates: any): string | null {
+    if (!updates || typeof updates !== "object" || Array.isArray(updates)) {
+      return "Request body must be an object of field updates";
+    }
+
+    const entries = Object.entries(updates);
+    if (entries.length === 0) {
+      return "At least one field is required";
+    }
+
+    for (const [field, value] of entries) {
+      const type = EDITABLE_PROPERTY_FIELDS[field];
+      if (!type) {
+        return `Field "${field}" cannot be edited`;
+      }
+      if (value === null) {
+        if (field === "listing_type") return "listing_type cannot be null";
+        continue;
+      }
+
+      const valid =
+        type === "string[]"
+          ? Array.isArray(value) &&
+            value.every((item) => typeof item === "string")
+          : type === "number"
+          ? typeof value === "number" && Number.isFinite(value)
+          : type === "integer"
+          ? Number.isInteger(value)
+          : typeof value === type;
+      if (!valid) {
+        return `${field} must be ${FIELD_TYPE_NAMES[type]} or null`;
+      }
+      if (
+        typeof value === "number" &&
+        value < 0 &&
+        !SIGNED_FIELDS.includes(field)
+      ) {
+        return `${field} cannot be negative`;
+      }
+    }
+
+    for (const field of ENUM_FIELDS) {
+      const values = ENUM_FILTER_VALUES[field]!;
+      if (updates[field] != null && !values.includes(updates[field])) {
+        return `${field} must be one of ${values.join(", ")}`;
+      }
+    }
+    if (
+      updates.furnishing != null &&
+      !FURNISHING_TYPES.includes(updates.furnishing)
+    ) {
+      return `furnishing must be one of ${FURNISHING_TYPES.join(", ")}`;
+    }
+    if (
+      (updates.latitude === undefined) !==
+      (updates.longitude === undefined)
+    ) {
+      return "latitude and longitude must be corrected together";
+    }
+    if (updates.latitude != null && Math.abs(updates.latitude) > 90) {
+      return "latitude must be between -90 and 90";
+    }
+    if (updates.longitude != null && Math.abs(updates.longitude) > 180) {
+      return "longitude must be between -180 and 180";
+    }
+
+    return null;
+  }
+
+  /**
+   * Apply validated updates to one of the user's properties. Returns null
+   * when the property does not exist, and throws a ValidationError when the
+   * updates clash with the fields they leave alone.
+   */
+  async applyCorrection(
+    userId: string,
+    propertyId: string,
+    updates: Partial<ParsedRealEstateProperty>
+  ): Promise<CorrectionResult | null> {
+    const property = await this.database.getParsedPropertyById(propertyId);
+    if (!property || property.user_id !== userId) return null;
+
+    const changes: Partial<ParsedRealEstateProperty> = { ...updates };
+    // Search filters on the price range, keep it in step with a single price
+    if (
+      updates.price_numeric !== undefined &&
+      updates.price_min === undefined &&
+      updates.price_max === undefined
+    ) {
+      changes.price_min = updates.price_numeric;
+      changes.price_max = updates.price_numeric;
+    }
+    const priceMin =
+      changes.price_min !== undefined ? changes.price_min : property.price_min;
+    const priceMax =
+      changes.price_max !== undefined ? changes.price_max : property.price_max;
+    if (priceMin != null && priceMax != null && priceMin > priceMax) {
+      throw new ValidationError("price_min cannot be greater than price_max");
+    }
+    if (updates.latitude !== undefined) {
+      changes.geocode_source = updates.latitude === null ? null : "manual";
+    }
+
+    const changedFields = (
+      Object.keys(changes) as (keyof ParsedRealEstateProperty)[]
+    ).filter(
+      (field) =>
+        JSON.stringify(property[field] ?? null) !==
+        JSON.stringify(changes[field])
+    );
+    if (changedFields.length === 0) {
+      return { property, corrections: [] };
+    }
+
+    const lockedFields = Array.from(
+      new Set([...(property.locked_fields || []), ...changedFields])
+    );
+    const saved = await this.database.updateParsedProperty(propertyId, {
+      ...Object.fromEntries(
+        changedFields.map((field) => [field, changes[field]])
+      ),
+      locked_fields: lockedFields,
+    });
+
+    const corrections = await this.database.recordPropertyCorrections(
+      changedFields.map((field) => ({
+        property_id: propertyId,
+        editor_id: userId,
+        field,
+        old_value: property[field] ?? null,
+        new_value: changes[field],
+      }))
+    );
+
+    eventBus.publish(userId, "property.updated", saved);
+
+    logger.info(
+      { userId, propertyId, fields: changedFields },
+      "Applied property correction"
+    );
+
+    return { property: saved, corrections };
+  }
+
+  /**
+   * Corrections made to one of the user's properties, oldest first. Returns
+   * null when the property does not exist.
+   */
+  async getHistory(
+    userId: string,
+    propertyId: string
+  ): Promise<PropertyCorrection[] | null> {
+    const property = await this.database.getParsedPropertyById(propertyId);
+    if (!property || property.user_id !== userId) return null;
+
+    return this.database.getPropertyCorrections(propertyId);
+  }
+}
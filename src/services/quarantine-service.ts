@@ -0,0 +1,277 @@
+import { eventBus } from "../lib/event-bus";
+import logger from "../lib/logger";
+import { supabaseAdmin } from "../lib/supabase";
+import { PropertyFilterResult } from "../utils/property-filter";
+
+// Unpromoted messages older than this are deleted; 0 disables the quarantine
+const DEFAULT_RETENTION_DAYS = 7;
+
+export interface QuarantinedMessage {
+  id: string;
+  user_id: string;
+  timestamp: string;
+  group_id: string;
+  group_name: string;
+  sender: string;
+  message_text: string;
+  message_meta: any;
+  message_hash: string;
+  wa_message_id: string | null;
+  filter_result: PropertyFilterResult;
+  confidence: number;
+  promoted_at: string | null;
+  promoted_message_id: string | null;
+  created_at: string;
+}
+
+export interface QuarantineFilters {
+  group_id?: string;
+  min_confidence?: number;
+  max_confidence?: number;
+  promoted?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Keeps group messages the property filter rejected, so false negatives can
+ * be found and promoted into whatsapp_messages for parsing
+ */
+export class QuarantineService {
+  private intervalId: NodeJS.Timeout | null = null;
+
+  get retentionDays(): number {
+    const days = process.env.QUARANTINE_RETENTION_DAYS;
+    return days ? Number(days) : DEFAULT_RETENTION_DAYS;
+  }
+
+  get isEnabled(): boolean {
+    return this.retentionDays > 0;
+  }
+
+  /**
+   * Store a rejected message. The same text from the same sender is kept
+   * once per user, like whatsapp_messages.
+   */
+  async quarantineMessage(
+    message: Omit<
+      QuarantinedMessage,
+      "id" | "confidence" | "promoted_at" | "promoted_message_id" | "created_at"
+    >
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from("quarantined_messages")
+      .upsert([{ ...message, confidence: message.filter_result.confidence }], {
+        onConflict: "user_id,message_hash",
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      throw new Error(`Failed to quarantine message: ${error.message}`);
+    }
+  }
+
+  async listMessages(
+    userId: string,
+    filters: QuarantineFilters = {}
+  ): Promise<QuarantinedMessage[]> {
+    const { limit = 50, offset = 0 } = filters;
+
+    let query = supabaseAdmin
+      .from("quarantined_messages")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (filters.group_id) {
+      query = query.eq("group_id", filters.group_id);
+    }
+    if (filters.min_confidence !== undefined) {
+      query = query.gte("confidence", filters.min_confidence);
+    }
+    if (filters.max_confidence !== undefined) {
+      query = query.lte("confidence", filters.max_confidence);
+    }
+    if (filters.promoted !== undefined) {
+      query = filters.promoted
+        ? query.not("promoted_at", "is", null)
+        : query.is("promoted_at", null);
+    }
+
+    // Near misses first: those are the likeliest false negatives
+    const { data, error } = await query
+      .order("confidence", { ascending: false })
+      .order("timestamp", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch quarantined messages: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getMessage(
+    userId: string,
+    id: string
+  ): Promise<QuarantinedMessage | null> {
+    const { data, error } = await supabaseAdmin
+      .from("quarantined_messages")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch quarantined message: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Copy a quarantined message into whatsapp_messages, where the parsing job
+   * picks it up. Returns null when the message does not exist.
+   */
+  async promoteMessage(
+    userId: string,
+    id: string
+  ): Promise<QuarantinedMessage | null> {
+    const quarantined = await this.getMessage(userId, id);
+    if (!quarantined || quarantined.promoted_message_id) return quarantined;
+
+    // The same post may have been stored from another group since
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from("whatsapp_messages")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("message_hash", quarantined.message_hash)
+      .limit(1);
+
+    if (existingError) {
+      throw new Error(
+        `Failed to check for stored message: ${existingError.message}`
+      );
+    }
+
+    let messageId: string = existing?.[0]?.id;
+    if (!messageId) {
+      const { data, error } = await supabaseAdmin
+        .from("whatsapp_messages")
+        .insert([
+          {
+            user_id: userId,
+            timestamp: quarantined.timestamp,
+            group_id: quarantined.group_id,
+            group_name: quarantined.group_name,
+            sender: quarantined.sender,
+            message_text: quarantined.message_text,
+            message_meta: quarantined.message_meta,
+            message_hash: quarantined.message_hash,
+            message_intent: quarantined.filter_result.intent,
+            wa_message_id: quarantined.wa_message_id,
+          },
+        ])
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to promote message: ${error.message}`);
+      }
+
+      messageId = data.id;
+      eventBus.publish(userId, "message.stored", {
+        message_id: data.id,
+        group_id: data.group_id,
+        group_name: data.group_name,
+        sender: data.sender,
+        timestamp: data.timestamp,
+        message_text: data.message_text,
+        message_intent: data.message_intent,
+      });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("quarantined_messages")
+      .update({
+        promoted_at: new Date().toISOString(),
+        promoted_message_id: messageId,
+      })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to mark message promoted: ${error.message}`);
+    }
+
+    logger.info(
+      { userId, quarantinedId: id, messageId },
+      "Promoted quarantined message"
+    );
+
+    return data;
+  }
+
+  /**
+   * Delete unpromoted messages older than the retention window. Promoted
+   * messages are kept as labeled data.
+   */
+  async purgeExpired(): Promise<number> {
+    if (!this.isEnabled) return 0;
+
+    const cutoff = new Date(
+      Date.now() - this.retentionDays * 24 * 60 * 60 * 1000
+    ).toISOString();
+
+    const { data, error } = await supabaseAdmin
+      .from("quarantined_messages")
+      .delete()
+      .is("promoted_at", null)
+      .lt("created_at", cutoff)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to purge quarantined messages: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  startRetentionSweep(intervalMs = 60 * 60 * 1000): void {
+    if (this.intervalId || !this.isEnabled) return;
+
+    const sweep = () => {
+      this.purgeExpired()
+        .then((deleted) => {
+          if (deleted > 0) {
+            logger.info({ deleted }, "Purged expired quarantined messages");
+          }
+        })
+        .catch((error) => {
+          logger.error(
+            { error: error instanceof Error ? error.message : String(error) },
+            "Quarantine retention sweep failed"
+          );
+        });
+    };
+
+    sweep();
+    this.intervalId = setInterval(sweep, intervalMs);
+
+    logger.info(
+      { intervalMs, retentionDays: this.retentionDays },
+      "Quarantine retention sweep started"
+    );
+  }
+
+  stopRetentionSweep(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+}
+
+// Shared by the WhatsApp services and the API
+export const quarantineService = new QuarantineService();
@@ -1,219 +1,294 @@
-import { GroqRealEstateParser } from "./groq-parser";
-import { DatabaseService } from "./database";
+import {
+  ListingParser,
+  ParsedRealEstateData,
+  ParsedRealEstateResult,
+} from "./listing-parser";
+import { ListingDeduplicator } from "./listing-deduplicator";
+import { createListingParser } from "./parser-factory";
+import { Geocoder, getGeocoder } from "./geocoder";
+import {
+  DatabaseService,
+  omitLockedFields,
+  ParsedRealEstateProperty,
+  ProcessingStats,
+  PropertySearchFilters,
+  WhatsAppMessage,
+} from "./database";
+import { normalizePrice, parsePriceUpdate } from "../utils/price-normalizer";
+import { clusterByGrid } from "../utils/geo";
+import { MessageIntent, PropertyMessageFilter } from "../utils/property-filter";
+import { RuleBasedRequirementParser } from "./requirement-parser";
+import { SavedSearchService } from "./saved-search-service";
+import { eventBus } from "../lib/event-bus";
 import pino from "pino";
 
+export interface ProcessingResult {
+  processed: number;
+  successful: number;
+  failed: number;
+  dead: number;
+  errors: string[];
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LEASE_SECONDS = 600;
+const EXPORT_PAGE_SIZE = 500;
+
 export class RealEstateParsingJob {
-  private parser: GroqRealEstateParser;
+  private parser: ListingParser;
   private database: DatabaseService;
+  private deduplicator: ListingDeduplicator;
+  private geocoder: Geocoder | null;
+  private requirementParser = new RuleBasedRequirementParser();
+  private savedSearches = new SavedSearchService();
   private logger: pino.Logger;
   private isRunning = false;
   private intervalId: NodeJS.Timeout | null = null;
+  private maxAttempts: number;
+  private leaseSeconds: number;
 
-  constructor(logger?: pino.Logger) {
-    this.parser = new GroqRealEstateParser();
+  constructor(logger?: pino.Logger, parser?: ListingParser) {
+    this.parser = parser || createListingParser();
     this.database = new DatabaseService();
+    this.deduplicator = new ListingDeduplicator(this.database);
+    this.geocoder = getGeocoder();
     this.logger = logger || pino({ level: "info" });
+    this.maxAttempts =
+      Number(process.env.PARSE_MAX_ATTEMPTS) || DEFAULT_MAX_ATTEMPTS;
+    this.leaseSeconds =
+      Number(process.env.PARSE_LEASE_SECONDS) || DEFAULT_LEASE_SECONDS;
   }
 
-  async processUnprocessedMessages(batchSize = 10): Promise<{
-    processed: number;
-    successful: number;
-    failed: number;
-    errors: string[];
-  }> {
-    const result = {
+  async processUnprocessedMessages(
+    batchSize = 10,
+    minConfidence = 0.3
+  ): Promise<ProcessingResult> {
+    const result: ProcessingResult = {
       processed: 0,
       successful: 0,
       failed: 0,
-      errors: [] as string[],
+      dead: 0,
+      errors: [],
     };
 
     try {
-      this.logger.info("Starting to process unprocessed messages...");
+      this.logger.info("Starting to process queued messages...");
 
-      const messages = await this.database.getUnprocessedMessages(batchSize);
+      const messages = await this.database.claimMessagesForParsing(
+        batchSize,
+        this.leaseSeconds,
+        this.maxAttempts
+      );
 
       if (messages.length === 0) {
-        this.logger.info("No unprocessed messages found");
+        this.logger.info("No queued messages found");
         return result;
       }
 
-      this.logger.info(`Found ${messages.length} unprocessed messages`);
+      this.logger.info(`Claimed ${messages.length} messages for parsing`);
+
+      // Messages without text, or deleted by their sender, have nothing to parse
+      const hasText = (msg: WhatsAppMessage) =>
+        !msg.deleted_at &&
+        !!msg.message_text &&
+        msg.message_text.trim().length > 0;
+      const emptyMessages = messages.filter((msg) => !hasText(msg));
+      for (const message of emptyMessages) {
+        await this.database.markParseSucceeded(message.id);
+        this.logger.debug(
+          `Marked message ${message.id} as parsed (no text content)`
+        );
+      }
+
+      // Replies that are not listings themselves ("Still available?", "Rate
+      // reduced to 1.1 Cr") can only update the listing they quote
+      const replyMessages = messages.filter(
+        (msg) =>
+          hasText(msg) &&
+          msg.quoted_wa_message_id &&
+          !PropertyMessageFilter.filterMessage(msg.message_text)
+            .isPropertyListing
+      );
+      for (const message of replyMessages) {
+        await this.processReplyMessage(message, result);
+      }
+
+      const textMessages = messages.filter(
+        (msg) => hasText(msg) && !replyMessages.includes(msg)
+      );
+
+      // Requirements ("Need 2BHK in Andheri") are not listings and are
+      // parsed separately, without the LLM
+      const requirementMessages = textMessages.filter(
+        (msg) => this.getMessageIntent(msg) === "requirement"
+      );
+      for (const message of requirementMessages) {
+        await this.processRequirementMessage(message, result);
+      }
 
-      // Filter out messages without text content
-      const validMessages = messages.filter(
-        (msg) => msg.message_text && msg.message_text.trim().length > 0
+      const validMessages = textMessages.filter(
+        (msg) => this.getMessageIntent(msg) === "offer"
       );
 
       if (validMessages.length === 0) {
         this.logger.info("No messages with valid text content found");
-        // Mark all messages as processed
-        for (const message of messages) {
-          await this.database.markMessageAsProcessed(message.id);
-        }
         return result;
       }
 
-      // Process messages in batch
+      let results: ParsedRealEstateResult[];
       try {
         this.logger.info(
           `Processing ${validMessages.length} messages in batch`
         );
 
-        const messageTexts = validMessages.map((msg) => msg.message_text);
-        const results = await this.parser.parseRealEstateMessagesBatch(
-          messageTexts
+        results = await this.parser.parseRealEstateMessagesBatch(
+          validMessages.map((msg) => msg.message_text)
         );
+      } catch (batchError) {
+        this.logger.error("Error in batch processing:", batchError);
 
-        // Process each result
-        for (let i = 0; i < validMessages.length; i++) {
-          const message = validMessages[i];
-          const parseResult = results[i];
+        // Leave every message in the queue so it is retried later
+        for (const message of validMessages) {
+          await this.recordFailure(message, batchError, result);
+        }
+        return result;
+      }
 
-          try {
-            result.processed++;
+      const savedProperties: ParsedRealEstateProperty[] = [];
 
-            this.logger.debug(
-              `Processing result for message ${message.id} from ${message.group_name}`
-            );
+      // Process each result
+      for (let i = 0; i < validMessages.length; i++) {
+        const message = validMessages[i];
+        const parseResult = results[i];
+
+        try {
+          result.processed++;
+
+          this.logger.debug(
+            `Processing result for message ${message.id} from ${message.group_name}`
+          );
+
+          // An earlier attempt may have saved some properties before failing
+          if (message.parse_attempts > 1) {
+            await this.database.deleteParsedPropertiesForMessage(message.id);
+          }
 
-            // Handle multiple properties per message
-            const properties = parseResult.properties || [];
+          // Manually corrected properties are refreshed instead of replaced
+          const correctedProperties =
+            await this.database.getCorrectedPropertiesForMessage(message.id);
 
+          // Handle multiple properties per message
+          const properties = parseResult?.properties || [];
+
+          this.logger.info(
+            `Found ${properties.length} properties for message ${message.id}`
+          );
+
+          let savedAnyProperty = false;
+
+          // Process each property from the message
+          for (const propertyData of properties) {
+            // Log the parsed data for debugging
             this.logger.info(
-              `Found ${properties.length} properties for message ${message.id}`
+              `Parsed property data for message ${message.id}:`,
+              {
+                listing_type: propertyData.listing_type,
+                confidence: propertyData.parsing_confidence,
+                property_type: propertyData.property_type,
+                location: propertyData.location,
+                price: propertyData.price,
+                raw_message: message.message_text.substring(0, 100) + "...", // First 100 chars
+              }
             );
 
-            let savedAnyProperty = false;
+            // Only save if we have a valid listing type and reasonable confidence
+            if (
+              propertyData.listing_type &&
+              propertyData.parsing_confidence &&
+              propertyData.parsing_confidence > minConfidence
+            ) {
+              const locatedData = await this.locateProperty(
+                message,
+                this.normalizePropertyPrice(propertyData, message.message_text)
+              );
+              const correctedIndex = correctedProperties.findIndex(
+                (property) =>
+                  property.listing_type === propertyData.listing_type
+              );
+              const savedProperty =
+                correctedIndex >= 0
+                  ? await this.database.refreshParsedProperty(
+                      correctedProperties.splice(correctedIndex, 1)[0],
+                      locatedData,
+                      message.message_text,
+                      parseResult.rawResponse
+                    )
+                  : await this.database.saveParsedProperty(
+                      message.id,
+                      message.user_id,
+                      locatedData,
+                      message.message_text,
+                      parseResult.rawResponse
+                    );
+
+              // Cluster re-posts of the same property from other brokers/groups
+              const canonicalListingId =
+                savedProperty.canonical_listing_id ||
+                (await this.deduplicator.assignCanonicalListing(savedProperty));
+              savedProperties.push(savedProperty);
+
+              eventBus.publish(message.user_id, "property.parsed", {
+                ...savedProperty,
+                canonical_listing_id: canonicalListingId,
+              });
 
-            // Process each property from the message
-            for (const propertyData of properties) {
-              // Log the parsed data for debugging
               this.logger.info(
-                `Parsed property data for message ${message.id}:`,
+                `Successfully parsed property from message ${message.id}`,
+                {
+                  property_type: propertyData.property_type,
+                  listing_type: propertyData.listing_type,
+                  location: propertyData.location,
+                  confidence: propertyData.parsing_confidence,
+                  extraction_method: propertyData.extraction_method,
+                  canonical_listing_id: canonicalListingId,
+                }
+              );
+
+              savedAnyProperty = true;
+            } else {
+              this.logger.info(
+                `Skipping property from message ${message.id} - low confidence or invalid listing type`,
                 {
                   listing_type: propertyData.listing_type,
                   confidence: propertyData.parsing_confidence,
                   property_type: propertyData.property_type,
                   location: propertyData.location,
                   price: propertyData.price,
-                  raw_message: message.message_text.substring(0, 100) + "...", // First 100 chars
+                  reason: !propertyData.listing_type
+                    ? "No listing type"
+                    : !propertyData.parsing_confidence
+                    ? "No confidence score"
+                    : propertyData.parsing_confidence <= minConfidence
+                    ? "Low confidence"
+                    : "Unknown",
                 }
               );
-
-              // Only save if we have a valid listing type and reasonable confidence
-              if (
-                propertyData.listing_type &&
-                propertyData.parsing_confidence &&
-                propertyData.parsing_confidence > 0.3
-              ) {
-                await this.database.saveParsedProperty(
-                  message.id,
-                  message.user_id,
-                  propertyData,
-                  message.message_text,
-                  parseResult.rawResponse
-                );
-
-                this.logger.info(
-                  `Successfully parsed property from message ${message.id}`,
-                  {
-                    property_type: propertyData.property_type,
-                    listing_type: propertyData.listing_type,
-                    location: propertyData.location,
-                    confidence: propertyData.parsing_confidence,
-                  }
-                );
-
-                savedAnyProperty = true;
-              } else {
-                this.logger.info(
-                  `Skipping property from message ${message.id} - low confidence or invalid listing type`,
-                  {
-                    listing_type: propertyData.listing_type,
-                    confidence: propertyData.parsing_confidence,
-                    property_type: propertyData.property_type,
-                    location: propertyData.location,
-                    price: propertyData.price,
-                    reason: !propertyData.listing_type
-                      ? "No listing type"
-                      : !propertyData.parsing_confidence
-                      ? "No confidence score"
-                      : propertyData.parsing_confidence <= 0.3
-                      ? "Low confidence"
-                      : "Unknown",
-                  }
-                );
-              }
-            }
-
-            if (savedAnyProperty) {
-              result.successful++;
-            }
-
-            // Mark as processed regardless of whether we saved any properties
-            await this.database.markMessageAsProcessed(message.id);
-          } catch (error) {
-            result.failed++;
-            const errorMessage = `Failed to process message ${message.id}: ${
-              error instanceof Error ? error.message : "Unknown error"
-            }`;
-            result.errors.push(errorMessage);
-            this.logger.error(errorMessage, { messageId: message.id, error });
-
-            // Mark as processed even if saving failed to avoid reprocessing
-            try {
-              await this.database.markMessageAsProcessed(message.id);
-            } catch (markError) {
-              this.logger.error(
-                `Failed to mark message ${message.id} as processed:`,
-                markError
-              );
             }
           }
-        }
-      } catch (batchError) {
-        this.logger.error("Error in batch processing:", batchError);
 
-        // Fallback: mark all messages as processed to avoid infinite retry
-        for (const message of validMessages) {
-          result.failed++;
-          const errorMessage = `Batch processing failed for message ${
-            message.id
-          }: ${
-            batchError instanceof Error ? batchError.message : "Unknown error"
-          }`;
-          result.errors.push(errorMessage);
-
-          try {
-            await this.database.markMessageAsProcessed(message.id);
-          } catch (markError) {
-            this.logger.error(
-              `Failed to mark message ${message.id} as processed:`,
-              markError
-            );
+          if (savedAnyProperty) {
+            result.successful++;
           }
-        }
-      }
 
-      // Mark any remaining messages (those without text) as processed
-      const remainingMessages = messages.filter(
-        (msg) => !msg.message_text || msg.message_text.trim().length === 0
-      );
-      for (const message of remainingMessages) {
-        try {
-          await this.database.markMessageAsProcessed(message.id);
-          this.logger.debug(
-            `Marked message ${message.id} as processed (no text content)`
-          );
+          // Parsed without errors, even if nothing was worth saving
+          await this.database.markParseSucceeded(message.id);
         } catch (error) {
-          this.logger.error(
-            `Failed to mark message ${message.id} as processed:`,
-            error
-          );
+          await this.recordFailure(message, error, result);
         }
       }
 
+      await this.sendSavedSearchAlerts(savedProperties);
+
       this.logger.info("Batch processing completed", result);
       return result;
     } catch (error) {
@@ -226,6 +301,273 @@ export class RealEstateParsingJob {
     }
   }
 
+  /**
+   * Alert users whose saved searches match the properties of this batch.
+   * The properties are already saved, so a failure here only costs alerts.
+   */
+  private async sendSavedSearchAlerts(
+    properties: ParsedRealEstateProperty[]
+  ): Promise<void> {
+    try {
+      const alertCount = await this.savedSearches.evaluateNewProperties(
+        properties
+      );
+      if (alertCount > 0) {
+        this.logger.info(
+          `Created ${alertCount} saved search alerts for ${properties.length} new properties`
+        );
+      }
+    } catch (error) {
+      this.logger.error("Failed to evaluate saved searches:", error);
+    }
+  }
+
+  private getMessageIntent(message: WhatsAppMessage): MessageIntent {
+    // Messages stored before intent detection have no intent yet
+    return (
+      message.message_intent ||
+      PropertyMessageFilter.classifyIntent(message.message_text)
+    );
+  }
+
+  private async processRequirementMessage(
+    message: WhatsAppMessage,
+    result: {
+      processed: number;
+      successful: number;
+      failed: number;
+      dead: number;
+      errors: string[];
+    }
+  ): Promise<void> {
+    try {
+      result.processed++;
+
+      if (message.parse_attempts > 1) {
+        await this.database.deleteRequirementsForMessage(message.id);
+      }
+
+      const requirement = this.requirementParser.parse(message.message_text);
+
+      if (requirement) {
+        const saved = await this.database.saveRequirement(
+          message.id,
+          message.user_id,
+          requirement,
+          message.message_text
+        );
+        result.successful++;
+
+        this.logger.info(`Saved requirement from message ${message.id}`, {
+          requirement_id: saved.id,
+          listing_type: requirement.listing_type,
+          bedrooms: requirement.bedrooms,
+          budget_max: requirement.budget_max,
+          preferred_areas: requirement.preferred_areas,
+        });
+      } else {
+        this.logger.info(
+          `No usable requirement details in message ${message.id}`
+        );
+      }
+
+      await this.database.markParseSucceeded(message.id);
+    } catch (error) {
+      await this.recordFailure(message, error, result);
+    }
+  }
+
+  /**
+   * Apply a price change announced in a reply to the properties parsed from
+   * the quoted listing
+   */
+  private async processReplyMessage(
+    message: WhatsAppMessage,
+    result: ProcessingResult
+  ): Promise<void> {
+    try {
+      result.processed++;
+
+      const quoted = await this.database.findMessageByWhatsAppId(
+        message.user_id,
+        message.group_id,
+        message.quoted_wa_message_id!
+      );
+      // Only the poster can change a listing's price; anyone else quoting it
+      // is a buyer or another broker ("I can do 1 cr")
+      const properties =
+        quoted && quoted.sender === message.sender
+          ? await this.database.getActivePropertiesForMessage(quoted.id)
+          : [];
+
+      let updated = 0;
+      for (const property of properties) {
+        const price = parsePriceUpdate(
+          message.message_text,
+          property.listing_type as ParsedRealEstateData["listing_type"]
+        );
+        if (!price) continue;
+
+        // A manually corrected price wins over the reply
+        const updates = omitLockedFields(
+          {
+            price: price.price_text,
+            price_numeric: price.price_min ?? undefined,
+            price_min: price.price_min ?? undefined,
+            price_max: price.price_max ?? undefined,
+            price_unit: price.price_unit ?? undefined,
+            price_period: price.price_period ?? undefined,
+            deposit_amount: price.deposit_amount ?? property.deposit_amount,
+            price_negotiable:
+              price.price_negotiable ?? property.price_negotiable,
+          },
+          property.locked_fields
+        );
+        if (Object.keys(updates).length === 0) continue;
+
+        const saved = await this.database.updateParsedProperty(
+          property.id,
+          updates
+        );
+        eventBus.publish(message.user_id, "property.updated", saved);
+        updated++;
+      }
+
+      if (updated > 0) {
+        result.successful++;
+        this.logger.info(
+          `Applied price update from reply ${
+            message.id
+          } to ${updated} properties of message ${quoted!.id}`
+        );
+      }
+
+      await this.database.markParseSucceeded(message.id);
+    } catch (error) {
+      await this.recordFailure(message, error, result);
+    }
+  }
+
+  /**
+   * Derive comparable rupee amounts from the parsed price text. The parser's
+   * own price_numeric is only kept when the text cannot be read.
+   */
+  private normalizePropertyPrice(
+    propertyData: ParsedRealEstateData,
+    messageText: string
+  ): ParsedRealEstateData {
+    const price = normalizePrice(propertyData.price, {
+      listingType: propertyData.listing_type,
+      messageText,
+      areaSqft: propertyData.area_sqft,
+    });
+
+    // The parser's number would be the per-sqft rate again
+    if (
+      price.price_min === null &&
+      price.price_per_sqft === null &&
+      propertyData.price_numeric
+    ) {
+      price.price_min = propertyData.price_numeric;
+      price.price_max = propertyData.price_numeric;
+      price.price_unit = "INR";
+      price.price_period =
+        propertyData.listing_type === "sale" ? "total" : "month";
+    }
+
+    return {
+      ...propertyData,
+      ...price,
+      price_numeric: price.price_min ?? undefined,
+    };
+  }
+
+  /**
+   * Use the sender's location pin when there is one, otherwise geocode the
+   * parsed location. Properties without coordinates are still saved.
+   */
+  private async locateProperty(
+    message: WhatsAppMessage,
+    propertyData: ParsedRealEstateData
+  ): Promise<ParsedRealEstateData> {
+    if (message.latitude != null && message.longitude != null) {
+      return {
+        ...propertyData,
+        latitude: message.latitude,
+        longitude: message.longitude,
+        geocode_source: "message_location",
+      };
+    }
+
+    if (!this.geocoder) return propertyData;
+
+    try {
+      const result = await this.geocoder.geocode(propertyData);
+      if (!result) return propertyData;
+
+      return {
+        ...propertyData,
+        latitude: result.latitude,
+        longitude: result.longitude,
+        geocode_source: result.source,
+      };
+    } catch (error) {
+      this.logger.warn(`Failed to geocode property of message ${message.id}`, {
+        error,
+      });
+      return propertyData;
+    }
+  }
+
+  /**
+   * Schedule a retry for a failed message, or dead-letter it once it has
+   * used up its attempts. Messages are never dropped silently.
+   */
+  private async recordFailure(
+    message: WhatsAppMessage,
+    error: unknown,
+    result: ProcessingResult
+  ): Promise<void> {
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    const errorMessage = `Failed to process message ${message.id}: ${reason}`;
+    result.failed++;
+    result.errors.push(errorMessage);
+    this.logger.error(errorMessage, { messageId: message.id, error });
+
+    try {
+      const status = await this.database.markParseFailed(
+        message,
+        reason,
+        this.maxAttempts
+      );
+
+      if (status === "dead") {
+        result.dead++;
+        this.logger.warn(
+          `Message ${message.id} moved to dead letter queue after ${message.parse_attempts} attempts`
+        );
+      }
+    } catch (markError) {
+      // The lease will expire and the message will be claimed again
+      this.logger.error(
+        `Failed to record parse failure for message ${message.id}:`,
+        markError
+      );
+    }
+  }
+
+  async getDeadLetterMessages(limit = 50, offset = 0) {
+    return await this.database.getDeadLetterMessages(limit, offset);
+  }
+
+  async retryDeadLetterMessage(messageId: string) {
+    return await this.database.requeueMessage(messageId, "dead");
+  }
+
+  async getQueuedMessages(limit = 100) {
+    return await this.database.getQueuedMessages(limit);
+  }
+
   async startRecurringJob(intervalMinutes = 5): Promise<void> {
     if (this.isRunning) {
       this.logger.warn("Recurring job is already running");
@@ -234,7 +576,7 @@ export class RealEstateParsingJob {
 
     this.isRunning = true;
     this.logger.info(
-      `Starting recurring real estate parsing job (interval: ${intervalMinutes} minutes)`
+      `Starting recurring real estate parsing job (interval: ${intervalMinutes} minutes, parser: ${this.parser.provider}/${this.parser.model})`
     );
 
     const runJob = async () => {
@@ -280,33 +622,57 @@ export class RealEstateParsingJob {
 
   async getJobStatus(): Promise<{
     isRunning: boolean;
-    stats: {
-      totalMessages: number;
-      processedMessages: number;
-      unprocessedMessages: number;
-      totalParsedProperties: number;
-      averageConfidence: number;
-    };
+    parser: { provider: string; model: string };
+    stats: ProcessingStats;
   }> {
     const stats = await this.database.getProcessingStats();
 
     return {
       isRunning: this.isRunning,
+      parser: { provider: this.parser.provider, model: this.parser.model },
       stats,
     };
   }
 
-  async searchProperties(filters: {
-    listing_type?: "sale" | "rental" | "lease";
-    property_type?: string;
-    location?: string;
-    min_price?: number;
-    max_price?: number;
-    bedrooms?: number;
-    min_parking_count?: number;
-    min_confidence?: number;
-    limit?: number;
-  }) {
+  async searchProperties(filters: PropertySearchFilters) {
     return await this.database.searchParsedProperties(filters);
   }
+
+  /**
+   * Page through every matching property, for exports too large to load at
+   * once. Radius searches come in one page: results are sorted by distance
+   * in memory, and the route caps the circle at MAX_RADIUS_KM.
+   */
+  async *iterateProperties(
+    filters: PropertySearchFilters,
+    pageSize = EXPORT_PAGE_SIZE
+  ): AsyncGenerator<ParsedRealEstateProperty[]> {
+    if (filters.near) {
+      yield await this.database.searchParsedProperties(filters);
+      return;
+    }
+
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.database.searchParsedProperties({
+        ...filters,
+        limit: pageSize,
+        offset,
+      });
+      if (page.length > 0) yield page;
+      if (page.length < pageSize) return;
+    }
+  }
+
+  /**
+   * Map markers for zoomed-out views: matching properties grouped into grid
+   * cells for the zoom level
+   */
+  async clusterProperties(filters: PropertySearchFilters, zoom: number) {
+    const points = await this.database.searchPropertyCoordinates(filters);
+    return clusterByGrid(points, zoom);
+  }
+
+  async searchListings(filters: PropertySearchFilters) {
+    return await this.database.searchCanonicalListings(filters);
+  }
 }
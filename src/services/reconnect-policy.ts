@@ -0,0 +1,122 @@
+import { computeBackoffDelay } from "../utils/backoff";
+
+export interface ReconnectPolicyOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Consecutive failed reconnects before the circuit opens
+  maxAttempts?: number;
+  // How long an open circuit waits before a single trial reconnect
+  cooldownMs?: number;
+  historySize?: number;
+}
+
+export interface ReconnectEvent {
+  status_code: number | null;
+  reason: string;
+  at: string;
+  attempt: number;
+  delay_ms: number | null;
+}
+
+export type ReconnectDecision =
+  | { action: "retry"; attempt: number; delayMs: number }
+  | { action: "circuit_open"; retryAt: Date };
+
+export interface ReconnectState {
+  attempts: number;
+  circuitOpen: boolean;
+  circuitOpenUntil: string | null;
+  history: ReconnectEvent[];
+}
+
+/**
+ * Per-user reconnect bookkeeping: jittered exponential backoff between
+ * attempts, and a circuit that opens after too many consecutive failures so
+ * a WhatsApp outage doesn't turn into a reconnect storm.
+ */
+export class ReconnectPolicy {
+  private options: Required<ReconnectPolicyOptions>;
+  private attempts = 0;
+  private circuitOpenUntil: Date | null = null;
+  private history: ReconnectEvent[] = [];
+
+  constructor(options: ReconnectPolicyOptions = {}) {
+    this.options = {
+      baseDelayMs: options.baseDelayMs ?? 2000,
+      maxDelayMs: options.maxDelayMs ?? 5 * 60 * 1000,
+      maxAttempts: options.maxAttempts ?? 10,
+      cooldownMs: options.cooldownMs ?? 30 * 60 * 1000,
+      historySize: options.historySize ?? 20,
+    };
+  }
+
+  /**
+   * Record a failed or dropped connection and decide when to try again
+   */
+  recordFailure(statusCode: number | null, reason: string): ReconnectDecision {
+    this.attempts++;
+
+    let decision: ReconnectDecision;
+    if (this.attempts > this.options.maxAttempts) {
+      this.circuitOpenUntil = new Date(Date.now() + this.options.cooldownMs);
+      decision = { action: "circuit_open", retryAt: this.circuitOpenUntil };
+    } else {
+      decision = {
+        action: "retry",
+        attempt: this.attempts,
+        delayMs: computeBackoffDelay(this.attempts, {
+          baseDelayMs: this.options.baseDelayMs,
+          maxDelayMs: this.options.maxDelayMs,
+          jitter: true,
+        }),
+      };
+    }
+
+    this.history.unshift({
+      status_code: statusCode,
+      reason,
+      at: new Date().toISOString(),
+      attempt: this.attempts,
+      delay_ms:
+        decision.action === "retry"
+          ? decision.delayMs
+          : this.options.cooldownMs,
+    });
+    this.history.length = Math.min(
+      this.history.length,
+      this.options.historySize
+    );
+
+    return decision;
+  }
+
+  /**
+   * The open circuit's cooldown is over: allow one trial reconnect. If it
+   * fails the circuit opens again straight away.
+   */
+  halfOpen(): void {
+    this.circuitOpenUntil = null;
+    this.attempts = this.options.maxAttempts;
+  }
+
+  /**
+   * Connection is open again
+   */
+  recordSuccess(): void {
+    this.attempts = 0;
+    this.circuitOpenUntil = null;
+  }
+
+  isCircuitOpen(): boolean {
+    return this.circuitOpenUntil !== null;
+  }
+
+  getState(): ReconnectState {
+    return {
+      attempts: this.attempts,
+      circuitOpen: this.isCircuitOpen(),
+      circuitOpenUntil: this.circuitOpenUntil?.toISOString() || null,
+      history: [...this.history],
+    };
+  }
+}
@@ -0,0 +1,222 @@
+import {
+  DatabaseService,
+  ParsedRealEstateProperty,
+  PropertyRequirement,
+} from "./database";
+import { textContainment } from "../utils/fuzzy-match";
+
+export interface RequirementMatch {
+  score: number;
+  reasons: string[];
+}
+
+export interface MatchOptions {
+  minScore?: number;
+  limit?: number;
+}
+
+const DEFAULT_MIN_SCORE = 0.5;
+const MAX_MATCH_LIMIT = 100;
+// Requirements older than this are assumed to be fulfilled or stale
+const REQUIREMENT_WINDOW_DAYS = 60;
+// Buyers and tenants usually stretch a little over their stated budget
+const BUDGET_STRETCH = 0.1;
+const AREA_MATCH_THRESHOLD = 0.6;
+
+const WEIGHTS = {
+  budget: 0.35,
+  area: 0.35,
+  bedrooms: 0.15,
+  property_type: 0.1,
+  furnishing: 0.05,
+};
+
+/**
+ * Scores parsed listings against buyer/tenant requirements, in both
+ * directions: listings for a requirement and requirements for a listing.
+ */
+export class RequirementMatcher {
+  private database: DatabaseService;
+
+  constructor(database: DatabaseService = new DatabaseService()) {
+    this.database = database;
+  }
+
+  /**
+   * Why min_score/limit query parameters are unusable, or null when they are
+   * valid or absent
+   */
+  static getMatchOptionsError(query: Record<string, unknown>): string | null {
+    if (query.min_score !== undefined) {
+      const minScore = Number(query.min_score);
+      if (
+        typeof query.min_score !== "string" ||
+        !query.min_score.trim() ||
+        !(minScore >= 0 && minScore <= 1)
+      ) {
+        return "min_score must be a number between 0 and 1";
+      }
+    }
+    if (query.limit !== undefined) {
+      const limit = Number(query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_MATCH_LIMIT) {
+        return `limit must be an integer from 1 to ${MAX_MATCH_LIMIT}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Match options from query parameters. Call getMatchOptionsError first.
+   */
+  static parseMatchOptions(query: Record<string, unknown>): MatchOptions {
+    return {
+      minScore:
+        query.min_score !== undefined ? Number(query.min_score) : undefined,
+      limit: query.limit !== undefined ? Number(query.limit) : undefined,
+    };
+  }
+
+  async findMatchesForRequirement(
+    requirement: PropertyRequirement,
+    options: MatchOptions = {}
+  ): Promise<(RequirementMatch & { property: ParsedRealEstateProperty })[]> {
+    const { minScore = DEFAULT_MIN_SCORE, limit = 20 } = options;
+
+    const candidates = await this.database.searchParsedProperties({
+      listing_type: requirement.listing_type as "sale" | "rental" | "lease",
+      bedrooms: requirement.bedrooms || undefined,
+      max_price: requirement.budget_max
+        ? Math.round(requirement.budget_max * (1 + BUDGET_STRETCH))
+        : undefined,
+      limit: 500,
+    });
+
+    return candidates
+      .map((property) => ({
+        property,
+        ...this.scoreMatch(requirement, property),
+      }))
+      .filter((match) => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async findRequirementsForProperty(
+    property: ParsedRealEstateProperty,
+    options: MatchOptions = {}
+  ): Promise<(RequirementMatch & { requirement: PropertyRequirement })[]> {
+    const { minScore = DEFAULT_MIN_SCORE, limit = 20 } = options;
+    const since = new Date(
+      Date.now() - REQUIREMENT_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+
+    const requirements = await this.database.getRecentRequirements(
+      property.listing_type,
+      since
+    );
+
+    return requirements
+      .map((requirement) => ({
+        requirement,
+        ...this.scoreMatch(requirement, property),
+      }))
+      .filter((match) => match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Score between 0 and 1 for how well a listing fits a requirement. Anything
+   * the requirement rules out (wrong BHK, over budget, wrong area) scores 0.
+   */
+  scoreMatch(
+    requirement: PropertyRequirement,
+    property: ParsedRealEstateProperty
+  ): RequirementMatch {
+    const noMatch = (reason: string) => ({ score: 0, reasons: [reason] });
+    const reasons: string[] = [];
+    let score = 0;
+    let weight = 0;
+
+    if (requirement.listing_type !== property.listing_type) {
+      return noMatch("different listing type");
+    }
+
+    if (requirement.property_type && property.property_type) {
+      if (requirement.property_type !== property.property_type) {
+        return noMatch("different property type");
+      }
+      score += WEIGHTS.property_type;
+      weight += WEIGHTS.property_type;
+      reasons.push(`property type ${property.property_type}`);
+    }
+
+    if (requirement.bedrooms && property.bedrooms) {
+      if (requirement.bedrooms !== property.bedrooms) {
+        return noMatch("different BHK");
+      }
+      score += WEIGHTS.bedrooms;
+      weight += WEIGHTS.bedrooms;
+      reasons.push(`${property.bedrooms} BHK`);
+    }
+
+    if (
+      requirement.min_area_sqft &&
+      property.area_sqft &&
+      property.area_sqft < requirement.min_area_sqft * 0.9
+    ) {
+      return noMatch("smaller than required area");
+    }
+
+    if (requirement.budget_max && property.price_min) {
+      if (
+        requirement.budget_period &&
+        property.price_period &&
+        requirement.budget_period !== property.price_period
+      ) {
+        return noMatch("different price period");
+      }
+
+      if (property.price_min > requirement.budget_max * (1 + BUDGET_STRETCH)) {
+        return noMatch("over budget");
+      }
+
+      const withinBudget = property.price_min <= requirement.budget_max;
+      score += WEIGHTS.budget * (withinBudget ? 1 : 0.5);
+      weight += WEIGHTS.budget;
+      reasons.push(withinBudget ? "within budget" : "slightly over budget");
+    }
+
+    const location = [property.area_name, property.location]
+      .filter(Boolean)
+      .join(" ");
+    if (requirement.preferred_areas?.length && location) {
+      const bestArea = Math.max(
+        ...requirement.preferred_areas.map((area) =>
+          textContainment(area, location)
+        )
+      );
+      if (bestArea < AREA_MATCH_THRESHOLD) {
+        return noMatch("outside preferred areas");
+      }
+      score += WEIGHTS.area * bestArea;
+      weight += WEIGHTS.area;
+      reasons.push("in preferred area");
+    }
+
+    if (requirement.furnishing && property.furnishing) {
+      const sameFurnishing = requirement.furnishing === property.furnishing;
+      score += sameFurnishing ? WEIGHTS.furnishing : 0;
+      weight += WEIGHTS.furnishing;
+      if (sameFurnishing) reasons.push(property.furnishing);
+    }
+
+    // Neither budget nor area could be compared: too little to go on
+    if (weight < WEIGHTS.budget) {
+      return noMatch("not enough details to compare");
+    }
+
+    return { score: Math.round((score / weight) * 100) / 100, reasons };
+  }
+}
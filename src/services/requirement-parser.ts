@@ -0,0 +1,117 @@
+import { parseIndianAmount, PricePeriod } from "../utils/price-normalizer";
+import { RuleBasedListingParser } from "./rule-based-parser";
+
+export interface ParsedRequirementData {
+  listing_type: "sale" | "rental" | "lease";
+  property_type?: string;
+  bedrooms?: number;
+  budget_min?: number | null;
+  budget_max?: number | null;
+  budget_period?: PricePeriod | null;
+  preferred_areas: string[];
+  min_area_sqft?: number;
+  furnishing?: "furnished" | "semi-furnished" | "unfurnished";
+  contact_info?: string;
+  parsing_confidence: number;
+}
+
+// "budget 60k", "budget: 50-60k", "budget upto 1.2 cr"
+const BUDGET_PATTERN =
+  /budget\s*(?:is|of|around|approx\.?)?\s*[:\-]?\s*((?:up\s*to|upto|max(?:imum)?|under|below|within|around|approx\.?)?\s*(?:₹|rs\.?|inr)?\s*[\d.,]+\s*(?:crores?|cr|lakhs?|lacs?|lac|l|thousand|k)?(?:\s*(?:-|–|to)\s*[\d.,]+\s*(?:crores?|cr|lakhs?|lacs?|lac|l|thousand|k)?)?)/i;
+// "upto 80k", "max 1.5 cr" without the word budget
+const CEILING_PATTERN =
+  /(?:up\s*to|upto|max(?:imum)?|under|below|within)\s*(?:₹|rs\.?|inr)?\s*([\d.,]+\s*(?:crores?|cr|lakhs?|lacs?|lac|l|thousand|k)?)\b/i;
+const CEILING_WORDS = /up\s*to|upto|max|under|below|within/i;
+const AREAS_LABEL_PATTERN =
+  /(?:locations?|loc|locality|areas|preferred\s*areas?)\s*[:\-]\s*([^\n]+)/i;
+// Stops at the next part of the requirement: "in Andheri W / Jogeshwari budget 60k"
+const AREAS_IN_PATTERN =
+  /\b(?:in|at|around|near)\s+([A-Za-z][A-Za-z .,/&|-]*?)(?=\s*(?:\bbudget\b|\bfor\b|\bwith\b|\bon\b|\bupto\b|\bup to\b|\bmax\b|\bunder\b|\bready\b|\bcall\b|\bcontact\b|\d|[\n:;()]|$))/i;
+
+/**
+ * Rule-based parser for "Required 2BHK in Andheri W budget 60k" style posts.
+ * The listing-level fields come from the offline listing extractor; this adds
+ * the budget range and preferred areas that only requirements have.
+ */
+export class RuleBasedRequirementParser {
+  private listingExtractor = new RuleBasedListingParser();
+
+  parse(messageText: string): ParsedRequirementData | null {
+    const text = messageText || "";
+    const [listing] = this.listingExtractor.extract(text);
+    const budget = this.extractBudget(text);
+    const preferredAreas = this.extractPreferredAreas(text);
+
+    // Budgets in lakhs/crores are purchases, smaller ones are rents
+    const listingType =
+      listing?.listing_type ||
+      (budget?.max ? (budget.max >= 1000000 ? "sale" : "rental") : undefined);
+
+    if (
+      !listingType ||
+      (!budget && !listing?.bedrooms && !preferredAreas.length)
+    ) {
+      return null;
+    }
+
+    const requirement: ParsedRequirementData = {
+      listing_type: listingType,
+      property_type: listing?.property_type,
+      bedrooms: listing?.bedrooms,
+      budget_min: budget?.min ?? null,
+      budget_max: budget?.max ?? null,
+      budget_period: budget
+        ? listingType === "sale"
+          ? "total"
+          : "month"
+        : null,
+      preferred_areas: preferredAreas,
+      min_area_sqft: listing?.area_sqft,
+      furnishing: listing?.furnishing,
+      contact_info: listing?.contact_info,
+      parsing_confidence: 0,
+    };
+
+    const knownFields = [
+      requirement.bedrooms,
+      requirement.budget_max,
+      requirement.property_type,
+      preferredAreas.length > 0 ? preferredAreas : undefined,
+    ].filter((value) => value !== undefined && value !== null).length;
+    requirement.parsing_confidence =
+      Math.round(Math.min(0.8, 0.3 + knownFields * 0.125) * 100) / 100;
+
+    return requirement;
+  }
+
+  private extractBudget(
+    text: string
+  ): { min: number | null; max: number } | null {
+    const budget = text.match(BUDGET_PATTERN) || text.match(CEILING_PATTERN);
+    if (!budget) return null;
+
+    const amount = parseIndianAmount(budget[1]);
+    if (!amount || amount.max <= 0) return null;
+
+    // "budget 60k" and "upto 60k" are ceilings; only a range has a floor
+    const isCeiling =
+      CEILING_WORDS.test(budget[0]) || amount.min === amount.max;
+    return { min: isCeiling ? null : amount.min, max: amount.max };
+  }
+
+  private extractPreferredAreas(text: string): string[] {
+    const match =
+      text.match(AREAS_LABEL_PATTERN) || text.match(AREAS_IN_PATTERN);
+    if (!match) return [];
+
+    const areas = match[1]
+      .split(/[,/|&]|\bor\b/i)
+      .map((area) => area.replace(/[.\s-]+$/, "").trim())
+      .filter(
+        (area) =>
+          area.length > 1 && /[a-z]/i.test(area) && !/^(?:any|all)$/i.test(area)
+      );
+
+    return Array.from(new Set(areas));
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  DetectedLanguage,
+  detectLanguage,
+  LANGUAGE_PACKS,
+  toEnglishPriceUnits,
+} from "../utils/language-packs";
+import { parseIndianAmount } from "../utils/price-normalizer";
+import { PropertyMessageFilter } from "../utils/property-filter";
+import {
+  ListingParser,
+  ParsedRealEstateData,
+  ParsedRealEstateResult,
+} from "./listing-parser";
+
+// Short price units the filter does not score on its own ("1.2 Cr", "85 L")
+const SHORT_PRICE_PATTERN = /\d+(?:\.\d+)?\s*(?:cr|lacs?|lac|l)\b/gi;
+// "12/20 floor", "12th of 20 floors", "Floor: 12/20"
+const TOTAL_FLOORS_PATTERNS = [
+  /(\d+)(?:st|nd|rd|th)?\s*(?:\/|of|out of)\s*(\d+)\s*floors?\b/i,
+  /floors?\s*[:\-]?\s*(\d+)\s*(?:\/|of|out of)\s*(\d+)/i,
+];
+const LOCATION_PATTERN =
+  /(?:location|loc|locality|address)\s*[:\-]\s*([^\n]+)/i;
+// Indian mobile numbers are often written as two groups of five ("98200 12345")
+const SPLIT_PHONE_PATTERN = /(?:\+91[-.\s]?)?\d{5}[-.\s]\d{5}\b/g;
+const PRICE_UNIT_PATTERN = /^\s*(crores?|cr|lakhs?|lacs?|lac|l|k|thousand)\b/i;
+// "deposit 1 lakh", "Deposit: 2L" and "2 lakh deposit" are not the price
+const DEPOSIT_BEFORE_PATTERN =
+  /\bdeposit\s*(?:amount)?\s*(?:of|is)?\s*[:\-=]?\s*$/i;
+const DEPOSIT_AFTER_PATTERN = /^\s*(?:security\s*)?deposit\b/i;
+const IN_LOCATION_PATTERN =
+  /\b(?:in|at)\s+([A-Z][A-Za-z]+(?:\s+[A-Z][A-Za-z]*)*)/;
+
+const PROPERTY_TYPE_KEYWORDS: [RegExp, string][] = [
+  [/\bvilla\b/i, "villa"],
+  [/\b(?:bungalow|row\s*house|independent\s*house|house)\b/i, "house"],
+  [/\boffice\b/i, "office"],
+  [/\b(?:shop|showroom)\b/i, "shop"],
+  [/\b(?:warehouse|godown)\b/i, "warehouse"],
+  [/\b(?:plot|land)\b/i, "land"],
+  [/\bcommercial\b/i, "commercial"],
+  [/\b(?:flat|apartment|\d\s*bhk)\b/i, "apartment"],
+];
+
+/**
+ * Deterministic regex/heuristic extractor. It needs no network, so it keeps
+ * listings flowing when the LLM provider is down or over quota.
+ */
+export class RuleBasedListingParser implements ListingParser {
+  readonly provider = "rules";
+  readonly model = "heuristic-v1";
+
+  async parseRealEstateMessage(
+    messageText: string
+  ): Promise<ParsedRealEstateResult> {
+    const results = await this.parseRealEstateMessagesBatch([messageText]);
+    return results[0];
+  }
+
+  async parseRealEstateMessagesBatch(
+    messageTexts: string[]
+  ): Promise<ParsedRealEstateResult[]> {
+    return messageTexts.map((messageText) => ({
+      properties: this.extract(messageText),
+      rawResponse: { provider: this.provider, model: this.model },
+    }));
+  }
+
+  extract(messageText: string): ParsedRealEstateData[] {
+    const text = messageText || "";
+    const language = detectLanguage(text);
+    const price = this.extractPrice(toEnglishPriceUnits(text, language));
+    const listingType = this.extractListingType(text, language, price?.numeric);
+
+    if (!listingType) {
+      return [];
+    }
+
+    const data: ParsedRealEstateData = {
+      listing_type: listingType,
+      property_type: this.extractPropertyType(text),
+      price: price?.text,
+      price_numeric: price?.numeric,
+      location: this.extractLocation(text),
+      bedrooms: this.extractBedrooms(text),
+      area_sqft: this.extractAreaSqft(text),
+      ...this.extractFloors(text),
+      furnishing: this.extractFurnishing(text),
+      ...this.extractParking(text),
+      contact_info: this.extractContacts(text),
+      extraction_method: "rules",
+    };
+
+    // Drop fields we could not find so they behave like LLM nulls
+    (Object.keys(data) as (keyof ParsedRealEstateData)[]).forEach((key) => {
+      if (data[key] === undefined) delete data[key];
+    });
+
+    data.parsing_confidence = this.scoreConfidence(data);
+    return [data];
+  }
+
+  private firstMatch(text: string, patterns: RegExp[]): string | undefined {
+    for (const pattern of patterns) {
+      // String.match resets lastIndex, so the shared global regexes are safe
+      const match = text.match(pattern);
+      if (match) return match[0];
+    }
+    return undefined;
+  }
+
+  private extractListingType(
+    text: string,
+    language: DetectedLanguage,
+    priceNumeric?: number
+  ): ParsedRealEstateData["listing_type"] | undefined {
+    if (/\blease\b|leave\s*(?:and|&|n)\s*licen[cs]e/i.test(text)) {
+      return "lease";
+    }
+    if (/\b(?:rent(?:al)?|per\s*month|monthly)\b/i.test(text)) {
+      return "rental";
+    }
+    if (/\b(?:sale|sell|resale|outright|buy)\b/i.test(text)) {
+      return "sale";
+    }
+    const pack = LANGUAGE_PACKS[language];
+    if (pack?.rentalPatterns.some((pattern) => pattern.test(text))) {
+      return "rental";
+    }
+    if (pack?.salePatterns.some((pattern) => pattern.test(text))) {
+      return "sale";
+    }
+    // Without explicit words, a price in lakhs/crores is almost always a sale
+    if (priceNumeric) {
+      return priceNumeric >= 1000000 ? "sale" : "rental";
+    }
+    return undefined;
+  }
+
+  private extractPrice(
+    text: string
+  ): { text: string; numeric?: number } | undefined {
+    const patterns = [
+      ...PropertyMessageFilter.PRICE_PATTERNS,
+      SHORT_PRICE_PATTERN,
+    ];
+
+    for (const pattern of patterns) {
+      // Own copy of the regex so the shared pattern's lastIndex is untouched
+      const regex = new RegExp(pattern.source, pattern.flags);
+      let match: RegExpExecArray | null;
+
+      while ((match = regex.exec(text))) {
+        const end = match.index + match[0].length;
+        // "₹ 1.25 Cr", "₹1.25Cr": the filter patterns stop before short units
+        const trailingUnit = text.slice(end).match(PRICE_UNIT_PATTERN);
+        // "3 kitchen" is not "3k": the unit must end at a word boundary
+        if (!trailingUnit && /^[a-z]/i.test(text.slice(end))) continue;
+        if (
+          DEPOSIT_BEFORE_PATTERN.test(text.slice(0, match.index)) ||
+          DEPOSIT_AFTER_PATTERN.test(
+            text.slice(end + (trailingUnit?.[0].length || 0))
+          )
+        ) {
+          continue;
+        }
+
+        const priceText = (match[0] + (trailingUnit?.[0] || "")).trim();
+        return {
+          text: priceText,
+          numeric: parseIndianAmount(priceText)?.min,
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  private extractPropertyType(text: string): string | undefined {
+    const match = PROPERTY_TYPE_KEYWORDS.find(([pattern]) =>
+      pattern.test(text)
+    );
+    return match?.[1];
+  }
+
+  private extractBedrooms(text: string): number | undefined {
+    const bhk = this.firstMatch(text, PropertyMessageFilter.BHK_PATTERNS);
+    const count = bhk?.match(/\d+/);
+    return count ? parseInt(count[0]) : undefined;
+  }
+
+  private extractAreaSqft(text: string): number | undefined {
+    const area = this.firstMatch(text, PropertyMessageFilter.AREA_PATTERNS);
+    const value = area?.match(/\d+/);
+    if (!area || !value) return undefined;
+
+    const number = parseInt(value[0]);
+    // Square metres -> square feet
+    return /sq\s*m|sqm|square\s*meter/i.test(area)
+      ? Math.round(number * 10.764)
+      : number;
+  }
+
+  private extractFloors(
+    text: string
+  ): Pick<ParsedRealEstateData, "floor_number" | "total_floors"> {
+    for (const pattern of TOTAL_FLOORS_PATTERNS) {
+      const totals = text.match(pattern);
+      if (totals) {
+        return {
+          floor_number: parseInt(totals[1]),
+          total_floors: parseInt(totals[2]),
+        };
+      }
+    }
+
+    const floor = this.firstMatch(text, PropertyMessageFilter.FLOOR_PATTERNS);
+    if (!floor) return {};
+
+    if (/ground/i.test(floor)) return { floor_number: 0 };
+    if (/basement/i.test(floor)) return { floor_number: -1 };
+
+    const number = floor.match(/\d+/);
+    return number ? { floor_number: parseInt(number[0]) } : {};
+  }
+
+  private extractFurnishing(
+    text: string
+  ): ParsedRealEstateData["furnishing"] | undefined {
+    if (/semi[\s-]*furnished/i.test(text)) return "semi-furnished";
+    if (/un[\s-]*furnished|bare\s*shell/i.test(text)) return "unfurnished";
+    if (/furnished/i.test(text)) return "furnished";
+    return undefined;
+  }
+
+  private extractParking(
+    text: string
+  ): Pick<ParsedRealEstateData, "parking" | "parking_count"> {
+    if (/\bno\s*(?:car\s*)?parking\b/i.test(text)) {
+      return { parking: false, parking_count: 0 };
+    }
+
+    const counted = text.match(/(\d+)\s*(?:car\s*)?park(?:ing)?s?\b/i);
+    if (counted) {
+      const count = parseInt(counted[1]);
+      return { parking: count > 0, parking_count: count };
+    }
+
+    return /parking|car\s*park/i.test(text) ? { parking: true } : {};
+  }
+
+  private extractContacts(text: string): string | undefined {
+    const numbers = new Set<string>();
+
+    const patterns = [
+      ...PropertyMessageFilter.CONTACT_PATTERNS,
+      SPLIT_PHONE_PATTERN,
+    ];
+
+    for (const pattern of patterns) {
+      for (const match of text.match(pattern) || []) {
+        const digits = match.replace(/\D/g, "");
+        // Keep the 10-digit subscriber number so variants de-duplicate
+        if (digits.length >= 10) numbers.add(digits.slice(-10));
+      }
+    }
+
+    return numbers.size > 0 ? Array.from(numbers).join(", ") : undefined;
+  }
+
+  private extractLocation(text: string): string | undefined {
+    const labelled = text.match(LOCATION_PATTERN);
+    if (labelled) return labelled[1].trim();
+
+    const inLocation = text.match(IN_LOCATION_PATTERN);
+    return inLocation ? inLocation[1].trim() : undefined;
+  }
+
+  private scoreConfidence(data: ParsedRealEstateData): number {
+    const keyFields = [
+      data.price_numeric,
+      data.bedrooms,
+      data.area_sqft,
+      data.location,
+      data.property_type,
+      data.contact_info,
+    ].filter((value) => value !== undefined).length;
+
+    // Rules are never as sure as a model reading the whole message
+    return Math.min(0.8, Math.round((0.2 + keyFields * 0.1) * 100) / 100);
+  }
+}
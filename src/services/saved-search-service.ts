@@ -0,0 +1,425 @@
+import logger from "../lib/logger";
+import { supabaseAdmin } from "../lib/supabase";
+import { ParsedRealEstateProperty, PropertySearchFilters } from "./database";
+
+// Sorting, paging and map queries make no sense for alerts, everything else
+// is stored
+export type SavedSearchFilters = Omit<
+  PropertySearchFilters,
+  | "sort"
+  | "limit"
+  | "offset"
+  | "near"
+  | "radius_km"
+  | "bbox"
+  | "has_coordinates"
+>;
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  is_active: boolean;
+  last_matched_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedSearchAlert {
+  id: string;
+  saved_search_id: string;
+  user_id: string;
+  property_id: string;
+  is_read: boolean;
+  read_at: string | null;
+  created_at: string;
+}
+
+const FILTER_KEYS: (keyof SavedSearchFilters)[] = [
+  "listing_type",
+  "property_type",
+  "location",
+  "min_price",
+  "max_price",
+  "price_period",
+  "bedrooms",
+  "floor_number",
+  "min_parking_count",
+  "min_confidence",
+];
+
+// Query strings and form data send numbers as text
+const NUMERIC_FILTER_KEYS: (keyof SavedSearchFilters)[] = [
+  "min_price",
+  "max_price",
+  "bedrooms",
+  "floor_number",
+  "min_parking_count",
+  "min_confidence",
+];
+
+export const ENUM_FILTER_VALUES: Partial<
+  Record<keyof SavedSearchFilters, string[]>
+> = {
+  listing_type: ["sale", "rental", "lease"],
+  property_type: [
+    "apartment",
+    "house",
+    "villa",
+    "commercial",
+    "office",
+    "shop",
+    "warehouse",
+    "land",
+    "other",
+  ],
+  price_period: ["total", "month", "year"],
+};
+
+const hasValue = (value: unknown) =>
+  value !== undefined && value !== null && value !== "";
+
+/**
+ * Whether a parsed property passes a filter set, with the same rules as
+ * DatabaseService.searchParsedProperties
+ */
+export function matchesSearchFilters(
+  property: ParsedRealEstateProperty,
+  filters: SavedSearchFilters
+): boolean {
+  if (filters.listing_type && property.listing_type !== filters.listing_type) {
+    return false;
+  }
+
+  if (
+    filters.property_type &&
+    property.property_type !== filters.property_type
+  ) {
+    return false;
+  }
+
+  if (
+    filters.location &&
+    !(property.location || "")
+      .toLowerCase()
+      .includes(filters.location.toLowerCase())
+  ) {
+    return false;
+  }
+
+  // Price ranges must overlap; unknown prices never match a price filter
+  if (
+    filters.min_price &&
+    !(property.price_max && property.price_max >= filters.min_price)
+  ) {
+    return false;
+  }
+
+  if (
+    filters.max_price &&
+    !(property.price_min && property.price_min <= filters.max_price)
+  ) {
+    return false;
+  }
+
+  if (filters.price_period && property.price_period !== filters.price_period) {
+    return false;
+  }
+
+  if (filters.bedrooms && property.bedrooms !== filters.bedrooms) {
+    return false;
+  }
+
+  if (filters.floor_number && property.floor_number !== filters.floor_number) {
+    return false;
+  }
+
+  if (
+    filters.min_parking_count &&
+    !(
+      property.parking_count &&
+      property.parking_count >= filters.min_parking_count
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    filters.min_confidence &&
+    (property.parsing_confidence || 0) < filters.min_confidence
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+export class SavedSearchService {
+  /**
+   * Why a filter set cannot be saved, or null when it is valid
+   */
+  static getFiltersError(filters: any): string | null {
+    if (filters === undefined || filters === null) return null;
+    if (typeof filters !== "object" || Array.isArray(filters)) {
+      return "filters must be an object";
+    }
+
+    for (const key of NUMERIC_FILTER_KEYS) {
+      if (hasValue(filters[key]) && !Number.isFinite(Number(filters[key]))) {
+        return `${key} must be a number`;
+      }
+    }
+
+    for (const [key, values] of Object.entries(ENUM_FILTER_VALUES)) {
+      const value = filters[key];
+      if (hasValue(value) && !values!.includes(value)) {
+        return `${key} must be one of ${values!.join(", ")}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Keep only known filter keys with a value, numbers as numbers. Call
+   * getFiltersError first.
+   */
+  static sanitizeFilters(filters: any): SavedSearchFilters {
+    const sanitized: any = {};
+    for (const key of FILTER_KEYS) {
+      const value = filters?.[key];
+      if (hasValue(value)) {
+        sanitized[key] = NUMERIC_FILTER_KEYS.includes(key)
+          ? Number(value)
+          : value;
+      }
+    }
+    return sanitized;
+  }
+
+  async listSearches(userId: string): Promise<SavedSearch[]> {
+    const { data, error } = await supabaseAdmin
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch saved searches: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getSearch(userId: string, id: string): Promise<SavedSearch | null> {
+    const { data, error } = await supabaseAdmin
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch saved search: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async createSearch(
+    userId: string,
+    search: { name: string; filters: SavedSearchFilters; is_active?: boolean }
+  ): Promise<SavedSearch> {
+    const { data, error } = await supabaseAdmin
+      .from("saved_searches")
+      .insert([
+        {
+          user_id: userId,
+          name: search.name,
+          filters: search.filters,
+          is_active: search.is_active ?? true,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create saved search: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateSearch(
+    userId: string,
+    id: string,
+    updates: Partial<Pick<SavedSearch, "name" | "filters" | "is_active">>
+  ): Promise<SavedSearch | null> {
+    const { data, error } = await supabaseAdmin
+      .from("saved_searches")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update saved search: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteSearch(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from("saved_searches")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to delete saved search: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+  }
+
+  async listAlerts(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<SavedSearchAlert[]> {
+    const { unreadOnly = false, limit = 50, offset = 0 } = options;
+
+    let query = supabaseAdmin
+      .from("saved_search_alerts")
+      .select(
+        "*, saved_search:saved_searches(id, name), property:parsed_real_estate_properties(*)"
+      )
+      .eq("user_id", userId);
+
+    if (unreadOnly) {
+      query = query.eq("is_read", false);
+    }
+
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch alerts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async countUnreadAlerts(userId: string): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from("saved_search_alerts")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("is_read", false);
+
+    if (error) {
+      throw new Error(`Failed to count alerts: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Mark alerts read or unread. Without ids, every alert of the user.
+   */
+  async setAlertsRead(
+    userId: string,
+    isRead: boolean,
+    ids?: string[]
+  ): Promise<number> {
+    let query = supabaseAdmin
+      .from("saved_search_alerts")
+      .update({
+        is_read: isRead,
+        read_at: isRead ? new Date().toISOString() : null,
+      })
+      .eq("user_id", userId);
+
+    if (ids) {
+      query = query.in("id", ids);
+    }
+
+    const { data, error } = await query.select("id");
+
+    if (error) {
+      throw new Error(`Failed to update alerts: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  /**
+   * Check newly saved properties against every active saved search and
+   * record an alert for each match. Returns the number of alerts created.
+   */
+  async evaluateNewProperties(
+    properties: ParsedRealEstateProperty[]
+  ): Promise<number> {
+    if (properties.length === 0) return 0;
+
+    const { data: searches, error } = await supabaseAdmin
+      .from("saved_searches")
+      .select("*")
+      .eq("is_active", true);
+
+    if (error) {
+      throw new Error(`Failed to fetch saved searches: ${error.message}`);
+    }
+
+    const alerts: Omit<
+      SavedSearchAlert,
+      "id" | "is_read" | "read_at" | "created_at"
+    >[] = [];
+    const matchedSearchIds = new Set<string>();
+
+    for (const search of (searches || []) as SavedSearch[]) {
+      for (const property of properties) {
+        if (matchesSearchFilters(property, search.filters || {})) {
+          alerts.push({
+            saved_search_id: search.id,
+            user_id: search.user_id,
+            property_id: property.id,
+          });
+          matchedSearchIds.add(search.id);
+        }
+      }
+    }
+
+    if (alerts.length === 0) return 0;
+
+    // A reprocessed message must not alert twice for the same property
+    const { error: insertError } = await supabaseAdmin
+      .from("saved_search_alerts")
+      .upsert(alerts, {
+        onConflict: "saved_search_id,property_id",
+        ignoreDuplicates: true,
+      });
+
+    if (insertError) {
+      throw new Error(`Failed to save alerts: ${insertError.message}`);
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("saved_searches")
+      .update({ last_matched_at: new Date().toISOString() })
+      .in("id", Array.from(matchedSearchIds));
+
+    if (updateError) {
+      logger.warn(
+        { error: updateError.message },
+        "Failed to update saved search match time"
+      );
+    }
+
+    return alerts.length;
+  }
+}
@@ -0,0 +1,629 @@
+import crypto from "crypto";
+import dns, { LookupAddress, LookupOptions } from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { AppEvent, eventBus } from "../lib/event-bus";
+import logger from "../lib/logger";
+import { supabaseAdmin } from "../lib/supabase";
+import { computeBackoffDelay } from "../utils/backoff";
+
+export const WEBHOOK_EVENTS = [
+  "property.parsed",
+  "message.stored",
+  "whatsapp.connected",
+  "whatsapp.logged_out",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookSubscription {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed" | "dead";
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+// Shorter secrets are too easy to guess for an HMAC key
+export const MIN_WEBHOOK_SECRET_LENGTH = 16;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// 30s, 1m, 2m, 4m ... capped at 1 hour
+const RETRY_BACKOFF = {
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  jitter: true,
+};
+
+/**
+ * Sign a payload the way receivers should verify it:
+ * X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, benchmarking and
+// reserved ranges
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split(".")
+    .reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/**
+ * Whether an address is one a webhook must never reach
+ */
+export function isPrivateAddress(address: string): boolean {
+  const lower = address.toLowerCase();
+  // IPv4-mapped: ::ffff:10.0.0.1, or ::ffff:a00:1 as URL parsing writes it
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateAddress(
+      [high >> 8, high & 255, low >> 8, low & 255].join(".")
+    );
+  }
+
+  if (net.isIPv4(lower)) {
+    const value = ipv4ToNumber(lower);
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+      const size = 2 ** (32 - bits);
+      const start = ipv4ToNumber(base);
+      return value >= start && value < start + size;
+    });
+  }
+
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    /^f[cd]/.test(lower) || // fc00::/7 unique local
+    /^fe[89ab]/.test(lower) || // fe80::/10 link-local
+    /^ff/.test(lower) || // multicast
+    /^64:ff9b:/.test(lower) || // NAT64, can reach any IPv4 address
+    /^2002:/.test(lower) // 6to4, can reach any IPv4 address
+  );
+}
+
+/**
+ * dns.lookup for outgoing webhook requests that refuses private addresses.
+ * The connection uses the address checked here, so a host cannot pass
+ * getWebhookUrlError and then resolve to an internal address (DNS rebinding).
+ */
+function publicOnlyLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number
+  ) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (
+      addresses.length === 0 ||
+      addresses.some((entry) => isPrivateAddress(entry.address))
+    ) {
+      return callback(
+        new Error(`${hostname} resolves to a private address`),
+        []
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * POST a body and resolve with the response status. Redirects are not
+ * followed, since one could point at an internal address.
+ */
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal
+): Promise<number> {
+  const target = new URL(url);
+  const client = target.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: publicOnlyLookup,
+        signal,
+      },
+      (response) => {
+        // The body is not used, drain it so the socket is released
+        response.resume();
+        resolve(response.statusCode || 0);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Why a webhook URL may not be used, or null when it is fine. The host is
+ * resolved so names pointing at internal addresses are caught too.
+ */
+export async function getWebhookUrlError(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "url must be an http(s) URL";
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true })).map(
+          (entry) => entry.address
+        );
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return "url must not point at a private, loopback or link-local address";
+  }
+  return null;
+}
+
+/**
+ * Per-user outbound webhooks. Events are written to a delivery log first and
+ * then sent by a dispatcher that retries failures with backoff, so a CRM that
+ * is briefly down still receives every event.
+ */
+export class WebhookService {
+  private maxAttempts: number;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isDispatching = false;
+
+  constructor() {
+    this.maxAttempts =
+      Number(process.env.WEBHOOK_MAX_ATTEMPTS) || DEFAULT_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Forward webhook-relevant events from the event bus
+   */
+  subscribe(): () => void {
+    return eventBus.subscribe((event) => {
+      if ((WEBHOOK_EVENTS as readonly string[]).includes(event.type)) {
+        this.queueEvent(event);
+      }
+    });
+  }
+
+  /**
+   * Queue an event for every active subscription of the user. Never throws:
+   * webhook problems must not break message handling or parsing.
+   */
+  async queueEvent(event: AppEvent): Promise<void> {
+    try {
+      const { data: subscriptions, error } = await supabaseAdmin
+        .from("webhook_subscriptions")
+        .select("id")
+        .eq("user_id", event.user_id)
+        .eq("is_active", true)
+        .contains("events", [event.type]);
+
+      if (error) {
+        throw new Error(`Failed to fetch subscriptions: ${error.message}`);
+      }
+
+      if (!subscriptions || subscriptions.length === 0) return;
+
+      const { error: insertError } = await supabaseAdmin
+        .from("webhook_deliveries")
+        .insert(
+          subscriptions.map((subscription) => ({
+            subscription_id: subscription.id,
+            user_id: event.user_id,
+            event_id: event.id,
+            event_type: event.type,
+            payload: event,
+          }))
+        );
+
+      if (insertError) {
+        throw new Error(`Failed to queue deliveries: ${insertError.message}`);
+      }
+
+      // Deliver right away instead of waiting for the next dispatcher tick
+      this.dispatchDueDeliveries().catch(() => undefined);
+    } catch (error) {
+      logger.error(
+        {
+          userId: event.user_id,
+          eventType: event.type,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to queue webhook event"
+      );
+    }
+  }
+
+  startDispatcher(intervalMs = 30 * 1000): void {
+    if (this.intervalId) return;
+
+    this.intervalId = setInterval(() => {
+      this.dispatchDueDeliveries().catch((error) => {
+        logger.error(
+          { error: error instanceof Error ? error.message : String(error) },
+          "Webhook dispatcher run failed"
+        );
+      });
+    }, intervalMs);
+
+    logger.info({ intervalMs }, "Webhook dispatcher started");
+  }
+
+  stopDispatcher(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Send every pending delivery and every failed one whose retry is due
+   */
+  async dispatchDueDeliveries(limit = 50): Promise<number> {
+    // One run at a time, so a slow endpoint is not hit twice for one delivery
+    if (this.isDispatching) return 0;
+    this.isDispatching = true;
+
+    try {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_deliveries")
+        .select("*, subscription:webhook_subscriptions(*)")
+        .in("status", ["pending", "failed"])
+        .lte("next_attempt_at", new Date().toISOString())
+        .order("created_at", { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to fetch due deliveries: ${error.message}`);
+      }
+
+      for (const delivery of data || []) {
+        await this.attemptDelivery(delivery, delivery.subscription);
+      }
+
+      return data?.length || 0;
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+
+  private async attemptDelivery(
+    delivery: WebhookDelivery,
+    subscription: WebhookSubscription | null
+  ): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    let statusCode: number | null = null;
+    let errorMessage: string | null = null;
+
+    // DNS may have changed since the subscription was saved
+    const urlError =
+      subscription && subscription.is_active
+        ? await getWebhookUrlError(subscription.url)
+        : null;
+
+    if (!subscription || !subscription.is_active) {
+      errorMessage = "Subscription is inactive or was deleted";
+    } else if (urlError) {
+      errorMessage = urlError;
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+      try {
+        statusCode = await postWebhook(
+          subscription.url,
+          {
+            "Content-Type": "application/json",
+            "User-Agent": "whatsapp-listings-webhooks/1.0",
+            "X-Webhook-Event": delivery.event_type,
+            "X-Webhook-Id": delivery.event_id,
+            "X-Webhook-Delivery": delivery.id,
+            "X-Webhook-Signature": signWebhookPayload(
+              subscription.secret,
+              body
+            ),
+          },
+          body,
+          controller.signal
+        );
+        if (statusCode < 200 || statusCode >= 300) {
+          errorMessage = `HTTP ${statusCode}`;
+        }
+      } catch (error) {
+        errorMessage =
+          error instanceof Error && error.name === "AbortError"
+            ? `Timed out after ${DELIVERY_TIMEOUT_MS}ms`
+            : error instanceof Error
+            ? error.message
+            : String(error);
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    const now = new Date();
+    let update: Partial<WebhookDelivery>;
+
+    if (!errorMessage) {
+      update = {
+        status: "succeeded",
+        attempts,
+        last_status_code: statusCode,
+        last_error: null,
+        next_attempt_at: null,
+        delivered_at: now.toISOString(),
+      };
+    } else {
+      const isDead = attempts >= this.maxAttempts || !subscription?.is_active;
+      update = {
+        status: isDead ? "dead" : "failed",
+        attempts,
+        last_status_code: statusCode,
+        last_error: errorMessage,
+        next_attempt_at: isDead
+          ? null
+          : new Date(
+              now.getTime() + computeBackoffDelay(attempts, RETRY_BACKOFF)
+            ).toISOString(),
+      };
+
+      logger.warn(
+        {
+          deliveryId: delivery.id,
+          eventType: delivery.event_type,
+          attempts,
+          statusCode,
+          error: errorMessage,
+          willRetry: !isDead,
+        },
+        "Webhook delivery failed"
+      );
+    }
+
+    const { error } = await supabaseAdmin
+      .from("webhook_deliveries")
+      .update({ ...update, updated_at: now.toISOString() })
+      .eq("id", delivery.id);
+
+    if (error) {
+      logger.error(
+        { deliveryId: delivery.id, error: error.message },
+        "Failed to record webhook delivery result"
+      );
+    }
+  }
+
+  /**
+   * Send an earlier delivery again as a new delivery with the same event id,
+   * so receivers can de-duplicate on X-Webhook-Id
+   */
+  async replayDelivery(
+    userId: string,
+    deliveryId: string
+  ): Promise<WebhookDelivery | null> {
+    const { data: original, error } = await supabaseAdmin
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("id", deliveryId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch delivery: ${error.message}`);
+    }
+
+    if (!original) return null;
+
+    const { data, error: insertError } = await supabaseAdmin
+      .from("webhook_deliveries")
+      .insert([
+        {
+          subscription_id: original.subscription_id,
+          user_id: userId,
+          event_id: original.event_id,
+          event_type: original.event_type,
+          payload: original.payload,
+        },
+      ])
+      .select()
+      .single();
+
+    if (insertError) {
+      throw new Error(`Failed to replay delivery: ${insertError.message}`);
+    }
+
+    this.dispatchDueDeliveries().catch(() => undefined);
+    return data;
+  }
+
+  async listSubscriptions(userId: string): Promise<WebhookSubscription[]> {
+    const { data, error } = await supabaseAdmin
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch subscriptions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async getSubscription(
+    userId: string,
+    id: string
+  ): Promise<WebhookSubscription | null> {
+    const { data, error } = await supabaseAdmin
+      .from("webhook_subscriptions")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch subscription: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async createSubscription(
+    userId: string,
+    subscription: { url: string; events: WebhookEventType[]; secret?: string }
+  ): Promise<WebhookSubscription> {
+    const { data, error } = await supabaseAdmin
+      .from("webhook_subscriptions")
+      .insert([
+        {
+          user_id: userId,
+          url: subscription.url,
+          events: subscription.events,
+          secret: subscription.secret || crypto.randomBytes(32).toString("hex"),
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create subscription: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async updateSubscription(
+    userId: string,
+    id: string,
+    updates: Partial<Pick<WebhookSubscription, "url" | "events" | "is_active">>
+  ): Promise<WebhookSubscription | null> {
+    const { data, error } = await supabaseAdmin
+      .from("webhook_subscriptions")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update subscription: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteSubscription(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from("webhook_subscriptions")
+      .delete()
+      .eq("user_id", userId)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to delete subscription: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+  }
+
+  async listDeliveries(
+    userId: string,
+    subscriptionId: string,
+    options: { status?: WebhookDeliveryStatus; limit?: number; offset?: number }
+  ): Promise<WebhookDelivery[]> {
+    const { status, limit = 50, offset = 0 } = options;
+
+    let query = supabaseAdmin
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("subscription_id", subscriptionId);
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch deliveries: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
+
+// Shared by the WhatsApp services, the parsing job and the API
+export const webhookService = new WebhookService();
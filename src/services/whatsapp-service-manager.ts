@@ -1,5 +1,14 @@
+import { supabaseAdmin } from "../lib/supabase";
 import { WhatsAppService } from "./whatsapp-service";
 
+// Whether the user wants their groups listened to; survives restarts
+export type WhatsAppDesiredState = "listening" | "paused";
+
+export interface RestoreSessionsOptions {
+  concurrency?: number;
+  staggerMs?: number;
+}
+
 export class WhatsAppServiceManager {
   private userServices = new Map<string, WhatsAppService>();
   private cleanupTimers = new Map<string, NodeJS.Timeout>();
@@ -19,24 +28,14 @@ export class WhatsAppServiceManager {
     let service = this.userServices.get(userId);
 
     if (!service) {
-      console.log(`📱 Creating new WhatsApp service for user: ${userId}`);
-      service = new WhatsAppService(userId);
-      this.userServices.set(userId, service);
-
-      // Set logout callback to automatically remove service when user logs out
-      service.setLogoutCallback(() => {
-        console.log(`🚪 Auto-removing service for logged out user: ${userId}`);
-        this.removeUserService(userId).catch((error) => {
-          console.error(
-            `Error removing service for logged out user ${userId}:`,
-            error
-          );
-        });
-      });
+      const newService = this.createService(userId);
+      service = newService;
 
-      // Auto-start if possible when creating a new service
-      service
-        .autoStartIfPossible()
+      // Auto-start if possible when creating a new service, unless paused
+      this.getDesiredState(userId)
+        .then((desiredState) =>
+          desiredState === "paused" ? false : newService.autoStartIfPossible()
+        )
         .then((started) => {
           if (started) {
             console.log(
@@ -61,6 +60,153 @@ export class WhatsAppServiceManager {
     return service;
   }
 
+  private createService(userId: string): WhatsAppService {
+    console.log(`📱 Creating new WhatsApp service for user: ${userId}`);
+    const service = new WhatsAppService(userId);
+    this.userServices.set(userId, service);
+
+    // Set logout callback to automatically remove service when user logs out
+    service.setLogoutCallback(() => {
+      console.log(`🚪 Auto-removing service for logged out user: ${userId}`);
+      this.removeUserService(userId).catch((error) => {
+        console.error(
+          `Error removing service for logged out user ${userId}:`,
+          error
+        );
+      });
+    });
+
+    this.userLastActivity.set(userId, Date.now());
+    this.resetCleanupTimer(userId);
+
+    return service;
+  }
+
+  /**
+   * Reconnect every user with stored WhatsApp credentials who has not paused
+   * listening. Meant to run once at boot so ingestion resumes unattended;
+   * starts are staggered and capped so a restart doesn't open every socket at once.
+   */
+  async restoreSessions(options: RestoreSessionsOptions = {}): Promise<number> {
+    const { concurrency = 3, staggerMs = 2000 } = options;
+
+    const { data: creds, error } = await supabaseAdmin
+      .from("whatsapp_auth_creds")
+      .select("user_id");
+
+    if (error) {
+      throw new Error(`Failed to list WhatsApp sessions: ${error.message}`);
+    }
+
+    const { data: pausedRows, error: stateError } = await supabaseAdmin
+      .from("whatsapp_session_state")
+      .select("user_id")
+      .eq("desired_state", "paused");
+
+    if (stateError) {
+      throw new Error(`Failed to load session states: ${stateError.message}`);
+    }
+
+    const paused = new Set((pausedRows || []).map((row) => row.user_id));
+    const userIds = (creds || [])
+      .map((row) => row.user_id as string)
+      .filter(
+        (userId) => !paused.has(userId) && !this.userServices.has(userId)
+      );
+
+    console.log(
+      `🔁 Restoring ${userIds.length} WhatsApp session(s) (${paused.size} paused)`
+    );
+
+    let restored = 0;
+    let next = 0;
+    const worker = async () => {
+      while (next < userIds.length) {
+        const userId = userIds[next++];
+        if (next > 1 && staggerMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, staggerMs));
+        }
+        try {
+          if (await this.startServiceForUser(userId)) restored++;
+        } catch (error) {
+          console.error(
+            `❌ Failed to restore WhatsApp session for user ${userId}:`,
+            error
+          );
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, userIds.length) }, worker)
+    );
+
+    console.log(
+      `✅ Restored ${restored}/${userIds.length} WhatsApp session(s)`
+    );
+    return restored;
+  }
+
+  /**
+   * Stop listening for a user without logging out; stays paused across restarts
+   */
+  async pauseUser(userId: string): Promise<void> {
+    await this.setDesiredState(userId, "paused");
+    await this.removeUserService(userId);
+  }
+
+  /**
+   * Resume listening with the stored credentials. Returns false if the user
+   * has no credentials and must connect (scan a QR code) first.
+   */
+  async resumeUser(userId: string): Promise<boolean> {
+    await this.setDesiredState(userId, "listening");
+    return this.startServiceForUser(userId);
+  }
+
+  async getDesiredState(userId: string): Promise<WhatsAppDesiredState> {
+    const { data, error } = await supabaseAdmin
+      .from("whatsapp_session_state")
+      .select("desired_state")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load session state: ${error.message}`);
+    }
+
+    return data?.desired_state || "listening";
+  }
+
+  async setDesiredState(
+    userId: string,
+    desiredState: WhatsAppDesiredState
+  ): Promise<void> {
+    const { error } = await supabaseAdmin.from("whatsapp_session_state").upsert(
+      {
+        user_id: userId,
+        desired_state: desiredState,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" }
+    );
+
+    if (error) {
+      throw new Error(`Failed to save session state: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create the service if needed and connect it with stored credentials
+   */
+  private async startServiceForUser(userId: string): Promise<boolean> {
+    const service =
+      this.getExistingService(userId) || this.createService(userId);
+    const status = service.getConnectionStatus();
+    if (status.isConnected) return true;
+    return service.autoStartIfPossible();
+  }
+
   /**
    * Get all active user services
    */
@@ -114,7 +260,8 @@ export class WhatsAppServiceManager {
       const service = this.userServices.get(userId);
       if (service) {
         const status = service.getConnectionStatus();
-        if (!status.isConnected) {
+        // Keep services that are still reconnecting with backoff
+        if (!status.isConnected && status.reconnect.attempts === 0) {
           console.log(
             `⏰ Auto-removing inactive WhatsApp service for user: ${userId}`
           );
@@ -145,7 +292,9 @@ export class WhatsAppServiceManager {
       if (
         inactiveTime > this.ACTIVITY_THRESHOLD &&
         !status.isConnected &&
-        !status.qrCode
+        !status.qrCode &&
+        !status.pairingCode &&
+        status.reconnect.attempts === 0
       ) {
         console.log(
           `🧹 Cleaning up inactive service for user: ${userId} (inactive for ${Math.round(
@@ -5,20 +5,41 @@ import {
   DisconnectReason,
   makeCacheableSignalKeyStore,
   AuthenticationState,
+  WAMessageStubType,
 } from "@whiskeysockets/baileys";
 import { Boom } from "@hapi/boom";
 import NodeCache from "@cacheable/node-cache";
 import { supabaseAdmin, WhatsAppMessage } from "../lib/supabase";
-import { PropertyMessageFilter } from "../utils/property-filter";
 import { useSupabaseAuthState } from "../utils/supabase-auth-state";
+import {
+  FilterProfile,
+  FilterProfileService,
+  ProfileFilterResult,
+} from "./filter-profile-service";
+import { MediaService } from "./media-service";
+import { MessageRevisionService } from "./message-revision-service";
+import { MessageLocationService } from "./message-location-service";
+import { quarantineService } from "./quarantine-service";
+import { ReconnectPolicy } from "./reconnect-policy";
+import { eventBus } from "../lib/event-bus";
 import logger from "../lib/logger";
 import fs from "fs";
 import crypto from "crypto";
 
+// How long filter profile changes take to reach a running listener
+const FILTER_PROFILE_CACHE_MS = 60 * 1000;
+
 export class WhatsAppService {
   private targetGroups: string[] = []; // Will be loaded from database
   private sock: WASocket | undefined;
   private latestQR: string | null = null;
+  private latestQRAt: Date | null = null; // When the QR last rotated
+  // Phone-number linking, the alternative to scanning latestQR
+  private pairing: {
+    phoneNumber: string;
+    code: string;
+    requestedAt: string;
+  } | null = null;
   private connectionState: "close" | "connecting" | "open" = "close";
   private isAuthenticated: boolean = false;
   private userId: string;
@@ -26,6 +47,21 @@ export class WhatsAppService {
   private msgRetryCounterCache: NodeCache;
   private authState: AuthenticationState | undefined;
   private isInitializing: boolean = false;
+  private isStopped: boolean = false; // Set by cleanup so a closed socket is not reconnected
+  private mediaService = new MediaService();
+  private revisionService = new MessageRevisionService();
+  private locationService = new MessageLocationService();
+  private filterProfileService = new FilterProfileService();
+  private filterProfiles: {
+    profiles: FilterProfile[];
+    loadedAt: number;
+  } | null = null;
+  private reconnectPolicy = new ReconnectPolicy({
+    maxAttempts:
+      Number(process.env.WHATSAPP_RECONNECT_MAX_ATTEMPTS) || undefined,
+    cooldownMs: Number(process.env.WHATSAPP_RECONNECT_COOLDOWN_MS) || undefined,
+  });
+  private reconnectTimer: NodeJS.Timeout | null = null;
 
   constructor(userId: string) {
     this.userId = userId;
@@ -52,6 +88,7 @@ export class WhatsAppService {
     }
 
     this.isInitializing = true;
+    this.isStopped = false;
 
     try {
       const { state, saveCreds } = await useSupabaseAuthState(this.userId);
@@ -109,16 +146,13 @@ export class WhatsAppService {
           await this.handleMessageUpsert(events["messages.upsert"]);
         }
 
-        // Handle message updates (delivery, read receipts, etc.)
+        // Handle message updates (edits and deletions; receipts are ignored)
         if (events["messages.update"]) {
-          // Optional: Handle message status updates
-          logger.debug(
-            {
-              userId: this.userId,
-              messageCount: events["messages.update"].length,
-            },
-            "Messages updated"
-          );
+          await this.handleMessageUpdates(events["messages.update"]);
+        }
+
+        if (events["messages.reaction"]) {
+          await this.handleMessageReactions(events["messages.reaction"]);
         }
 
         // Handle group updates
@@ -167,7 +201,17 @@ export class WhatsAppService {
         "QR Code generated, access via /status endpoint"
       );
       this.latestQR = qr;
+      this.latestQRAt = new Date();
       this.connectionState = "connecting";
+      eventBus.publish(this.userId, "whatsapp.qr", { qr });
+    }
+
+    if (connection) {
+      eventBus.publish(this.userId, "whatsapp.connection", {
+        connection,
+        status_code:
+          (lastDisconnect?.error as Boom)?.output?.statusCode ?? null,
+      });
     }
 
     if (connection === "close") {
@@ -201,7 +245,7 @@ export class WhatsAppService {
             "User logged out, cleaning up auth data"
           );
           await this.handleLogout();
-          this.notifyLogout();
+          this.notifyLogout(statusCode);
         } else if (statusCode === 440) {
           // Handle conflict/replaced error - another device took over the session
           logger.warn(
@@ -215,7 +259,7 @@ export class WhatsAppService {
 
           // Clear auth data since the session is no longer valid
           await this.handleLogout();
-          this.notifyLogout();
+          this.notifyLogout(statusCode);
         } else if (statusCode === DisconnectReason.connectionReplaced) {
           // Handle connection replaced scenario
           logger.warn(
@@ -227,27 +271,22 @@ export class WhatsAppService {
           );
 
           await this.handleLogout();
-          this.notifyLogout();
-        } else {
-          // For other disconnect reasons, attempt to reconnect
+          this.notifyLogout(statusCode);
+        } else if (this.isStopped) {
           logger.info(
             {
               userId: this.userId,
-              statusCode,
             },
-            "Attempting to reconnect"
+            "Connection closed after cleanup, not reconnecting"
+          );
+        } else {
+          // For other disconnect reasons, reconnect with backoff
+          this.scheduleReconnect(
+            statusCode ?? null,
+            disconnectError instanceof Error
+              ? disconnectError.message
+              : String(disconnectError)
           );
-          setTimeout(() => {
-            this.startConnection().catch((error) => {
-              logger.error(
-                {
-                  userId: this.userId,
-                  error: error instanceof Error ? error.message : String(error),
-                },
-                "Failed to reconnect"
-              );
-            });
-          }, 3000); // Simple 3-second delay instead of complex exponential backoff
         }
       }
     }
@@ -266,6 +305,8 @@ export class WhatsAppService {
       this.connectionState = "open";
       this.isAuthenticated = true;
       this.latestQR = null;
+      this.pairing = null;
+      this.reconnectPolicy.recordSuccess();
       logger.info(
         {
           userId: this.userId,
@@ -273,6 +314,10 @@ export class WhatsAppService {
         "WhatsApp connected successfully, listening for messages"
       );
 
+      eventBus.publish(this.userId, "whatsapp.connected", {
+        jid: this.sock?.user?.id || null,
+      });
+
       // Reload user preferences when connection is established
       this.loadUserGroupPreferences().catch((error) => {
         logger.error(
@@ -286,6 +331,63 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Reconnect after a backoff delay, or after the cooldown once too many
+   * reconnects in a row have failed (circuit open)
+   */
+  private scheduleReconnect(statusCode: number | null, reason: string): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+
+    const decision = this.reconnectPolicy.recordFailure(statusCode, reason);
+    let delayMs: number;
+
+    if (decision.action === "circuit_open") {
+      delayMs = decision.retryAt.getTime() - Date.now();
+      logger.error(
+        {
+          userId: this.userId,
+          statusCode,
+          retryAt: decision.retryAt.toISOString(),
+        },
+        "Too many failed reconnects, pausing reconnects (circuit open)"
+      );
+    } else {
+      delayMs = decision.delayMs;
+      logger.info(
+        {
+          userId: this.userId,
+          statusCode,
+          attempt: decision.attempt,
+          delayMs,
+        },
+        "Attempting to reconnect"
+      );
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.isStopped) return;
+
+      if (decision.action === "circuit_open") {
+        this.reconnectPolicy.halfOpen();
+      }
+
+      this.startConnection().catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(
+          {
+            userId: this.userId,
+            error: message,
+          },
+          "Failed to reconnect"
+        );
+        this.scheduleReconnect(null, message);
+      });
+    }, delayMs);
+  }
+
   private async handleMessageUpsert(upsert: any) {
     const { messages, type } = upsert;
 
@@ -347,17 +449,34 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Current QR payload and when it was issued, for rendering as an image
+   */
+  getQrCode(): { qr: string; issuedAt: Date } | null {
+    if (!this.latestQR || !this.latestQRAt) return null;
+    return { qr: this.latestQR, issuedAt: this.latestQRAt };
+  }
+
   getConnectionStatus() {
     const isConnected = this.connectionState === "open" && this.isAuthenticated;
+    const reconnect = this.reconnectPolicy.getState();
 
     return {
       isConnected,
       qrCode: this.latestQR,
+      pairingCode: isConnected ? null : this.pairing?.code || null,
+      pairingPhoneNumber: isConnected
+        ? null
+        : this.pairing?.phoneNumber || null,
       socketActive: !!this.sock,
       connectionState: this.connectionState,
       isAuthenticated: this.isAuthenticated,
+      circuitOpen: reconnect.circuitOpen,
+      reconnect,
       status: isConnected
         ? "connected"
+        : this.pairing
+        ? "pairing_code_ready"
         : this.latestQR
         ? "qr_ready"
         : this.connectionState === "connecting"
@@ -365,14 +484,76 @@ export class WhatsAppService {
         : "disconnected",
       message: isConnected
         ? "WhatsApp is connected"
+        : this.pairing
+        ? "Pairing code ready. Enter it in WhatsApp > Linked devices > Link with phone number"
         : this.latestQR
         ? "QR code ready"
         : this.connectionState === "connecting"
         ? "Connecting to WhatsApp..."
+        : reconnect.circuitOpen
+        ? `Reconnects paused after repeated failures, retrying at ${reconnect.circuitOpenUntil}`
         : "Not connected",
     };
   }
 
+  /**
+   * Link by phone number instead of QR: WhatsApp shows a notification on the
+   * phone and the user types the returned 8-character code there.
+   */
+  async requestPairingCode(phoneNumber: string): Promise<{
+    pairingCode: string;
+    phoneNumber: string;
+  }> {
+    // Baileys wants the number with country code, digits only
+    const digits = phoneNumber.replace(/\D/g, "");
+    if (digits.length < 8 || digits.length > 15) {
+      throw new Error(
+        "Phone number must include the country code, e.g. 919876543210"
+      );
+    }
+
+    if (this.connectionState === "open" && this.isAuthenticated) {
+      throw new Error("WhatsApp is already connected");
+    }
+
+    if (this.authState?.creds.registered) {
+      throw new Error(
+        "This session is already linked; log out before pairing a new number"
+      );
+    }
+
+    if (!this.sock && !this.isInitializing) {
+      await this.startConnection();
+    }
+
+    // The code can only be requested once the socket has reached the
+    // login stage, which is when the first QR code is emitted
+    const deadline = Date.now() + 10000;
+    while (!this.latestQR && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+
+    if (!this.sock || !this.latestQR) {
+      throw new Error("WhatsApp connection is not ready for pairing yet");
+    }
+
+    const code = await this.sock.requestPairingCode(digits);
+    this.pairing = {
+      phoneNumber: digits,
+      code,
+      requestedAt: new Date().toISOString(),
+    };
+
+    logger.info(
+      {
+        userId: this.userId,
+      },
+      "Pairing code generated, waiting for user to enter it on the phone"
+    );
+
+    return { pairingCode: code, phoneNumber: digits };
+  }
+
   async initializeIfNeeded(): Promise<{
     status: string;
     message: string;
@@ -438,6 +619,92 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Apply edits and "delete for everyone" to messages we already stored
+   */
+  private async handleMessageUpdates(updates: any[]) {
+    for (const { key, update } of updates) {
+      if (!key?.remoteJid?.endsWith("@g.us") || !key.id) continue;
+
+      try {
+        if (
+          update.message === null &&
+          update.messageStubType === WAMessageStubType.REVOKE
+        ) {
+          const message = await this.revisionService.applyRevoke(
+            this.userId,
+            key.remoteJid,
+            key.id
+          );
+          if (message) {
+            eventBus.publish(this.userId, "message.deleted", {
+              message_id: message.id,
+              group_id: message.group_id,
+              deleted_at: message.deleted_at,
+            });
+          }
+          continue;
+        }
+
+        const editedMessage = update.message?.editedMessage?.message;
+        if (editedMessage) {
+          const message = await this.revisionService.applyEdit(
+            this.userId,
+            key.remoteJid,
+            key.id,
+            this.extractMessageText(editedMessage),
+            this.serializeMessage(editedMessage)
+          );
+          if (message) {
+            eventBus.publish(this.userId, "message.edited", {
+              message_id: message.id,
+              group_id: message.group_id,
+              message_text: message.message_text,
+              edited_at: message.edited_at,
+            });
+          }
+        }
+      } catch (error) {
+        logger.error(
+          {
+            userId: this.userId,
+            waMessageId: key.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "Failed to apply message update"
+        );
+      }
+    }
+  }
+
+  private async handleMessageReactions(reactions: any[]) {
+    for (const { key, reaction } of reactions) {
+      if (!key?.remoteJid?.endsWith("@g.us") || !key.id) continue;
+
+      const reactorJid = reaction?.key?.participant || reaction?.key?.remoteJid;
+      if (!reactorJid) continue;
+
+      try {
+        await this.revisionService.applyReaction(
+          this.userId,
+          key.remoteJid,
+          key.id,
+          reactorJid,
+          reaction.text || ""
+        );
+      } catch (error) {
+        logger.error(
+          {
+            userId: this.userId,
+            waMessageId: key.id,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "Failed to apply message reaction"
+        );
+      }
+    }
+  }
+
   async handleMessage(msg: any, type: string, sock: WASocket) {
     if (!msg.key.remoteJid?.endsWith("@g.us")) {
       return; // Not a group message
@@ -479,6 +746,24 @@ export class WhatsAppService {
 
       const isHistorical = type === "append";
       const messageType = isHistorical ? "HISTORICAL" : "NEW";
+      const sender = msg.key.participant || "unknown";
+      const sentAt = new Date(
+        (Number(msg.messageTimestamp) || Date.now() / 1000) * 1000
+      );
+
+      // Location pins are not stored as messages; their coordinates go on
+      // the listing the same sender posted next to them
+      const location = MessageLocationService.getLocationContent(msg.message);
+      if (location) {
+        await this.locationService.attachLocation(
+          this.userId,
+          msg.key.remoteJid,
+          sender,
+          sentAt,
+          location
+        );
+        return;
+      }
 
       logger.info(
         {
@@ -495,22 +780,39 @@ export class WhatsAppService {
       // Extract plain text from message for efficient searching
       const messageText = this.extractMessageText(msg.message);
 
-      // Filter message to check if it's a property listing
-      const filterResult = PropertyMessageFilter.filterMessage(messageText);
+      // Filter message to check if it's a property listing, with the
+      // user's own filter profiles when they have any
+      const filterResult = FilterProfileService.filterWithProfiles(
+        messageText,
+        await this.getFilterProfiles()
+      );
 
       logger.debug(
         {
           userId: this.userId,
           isPropertyListing: filterResult.isPropertyListing,
+          intent: filterResult.intent,
           confidence: filterResult.confidence,
+          profileId: filterResult.profile_id,
           matchedKeywords: filterResult.matchedKeywords.length,
           matchedPatterns: filterResult.matchedPatterns.length,
         },
         "Property filter result"
       );
 
-      // Only store property listings in the database
-      if (!filterResult.isPropertyListing) {
+      const quoted = this.extractQuotedContext(msg.message);
+
+      // Replies such as "Still available?" or "Rate reduced to 1.1 Cr" are not
+      // listings, but are kept when they quote a stored message
+      const isReplyToStoredMessage =
+        !filterResult.isPropertyListing &&
+        !!quoted &&
+        (await this.isStoredMessage(msg.key.remoteJid, quoted.stanzaId));
+
+      // Only store property listings (and replies to them) in the database.
+      // Rejected messages go to the quarantine so false negatives can be
+      // reviewed and promoted.
+      if (!filterResult.isPropertyListing && !isReplyToStoredMessage) {
         logger.debug(
           {
             userId: this.userId,
@@ -518,6 +820,15 @@ export class WhatsAppService {
           },
           "Skipping non-property message"
         );
+        if (messageText.trim() && quarantineService.isEnabled) {
+          await this.quarantineMessage(
+            msg,
+            groupName,
+            sentAt,
+            messageText,
+            filterResult
+          );
+        }
         return;
       }
 
@@ -531,9 +842,12 @@ export class WhatsAppService {
         "Storing property message"
       );
 
-      // Create a hash to identify duplicate messages
+      // Create a hash to identify duplicate messages. The same short reply
+      // to two different listings is not a duplicate.
       const messageHash = this.createMessageHash(
-        messageText,
+        isReplyToStoredMessage
+          ? `${messageText}|${quoted!.stanzaId}`
+          : messageText,
         msg.key.participant || "unknown"
       );
 
@@ -554,17 +868,27 @@ export class WhatsAppService {
         return;
       }
 
+      const pendingLocation = this.locationService.takePendingLocation(
+        msg.key.remoteJid,
+        sender,
+        sentAt
+      );
+
       const messageData: WhatsAppMessage = {
         user_id: this.userId, // Store messages for this specific user
-        timestamp: new Date(
-          (Number(msg.messageTimestamp) || Date.now() / 1000) * 1000
-        ).toISOString(),
+        timestamp: sentAt.toISOString(),
         group_id: msg.key.remoteJid,
         group_name: groupName,
         sender: msg.key.participant || "unknown",
         message_text: messageText,
         message_meta: serializedMessage,
         message_hash: messageHash,
+        message_intent: filterResult.intent,
+        wa_message_id: msg.key.id,
+        quoted_wa_message_id: quoted?.stanzaId || null,
+        quoted_participant: quoted?.participant || null,
+        latitude: pendingLocation?.latitude ?? null,
+        longitude: pendingLocation?.longitude ?? null,
       };
 
       // Store in Supabase for ALL users to access
@@ -578,6 +902,7 @@ export class WhatsAppService {
               messageText.substring(0, 50) +
               (messageText.length > 50 ? "..." : ""),
             filterConfidence: filterResult.confidence,
+            intent: filterResult.intent,
             matchedKeywords: filterResult.matchedKeywords.length,
             matchedPatterns: filterResult.matchedPatterns.length,
           },
@@ -612,6 +937,28 @@ export class WhatsAppService {
             },
             "Message stored in Supabase successfully"
           );
+
+          if (data[0]?.id) {
+            eventBus.publish(this.userId, "message.stored", {
+              message_id: data[0].id,
+              group_id: messageData.group_id,
+              group_name: messageData.group_name,
+              sender: messageData.sender,
+              timestamp: messageData.timestamp,
+              message_text: messageData.message_text,
+              message_intent: messageData.message_intent,
+            });
+          }
+
+          // Keep floor plans, brochures and photos attached to the listing
+          if (data[0]?.id && MediaService.getMediaContent(msg.message)) {
+            await this.mediaService.storeAttachment(
+              msg,
+              sock,
+              data[0].id,
+              this.userId
+            );
+          }
         }
       } catch (error) {
         logger.error(
@@ -652,6 +999,40 @@ export class WhatsAppService {
     }
   }
 
+  private async quarantineMessage(
+    msg: any,
+    groupName: string,
+    sentAt: Date,
+    messageText: string,
+    filterResult: ProfileFilterResult
+  ) {
+    try {
+      await quarantineService.quarantineMessage({
+        user_id: this.userId,
+        timestamp: sentAt.toISOString(),
+        group_id: msg.key.remoteJid,
+        group_name: groupName,
+        sender: msg.key.participant || "unknown",
+        message_text: messageText,
+        message_meta: this.serializeMessage(msg.message),
+        message_hash: this.createMessageHash(
+          messageText,
+          msg.key.participant || "unknown"
+        ),
+        wa_message_id: msg.key.id || null,
+        filter_result: filterResult,
+      });
+    } catch (error) {
+      logger.warn(
+        {
+          userId: this.userId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to quarantine message"
+      );
+    }
+  }
+
   private logToFile(messageData: WhatsAppMessage, messageType: string) {
     const logEntry = {
       ...messageData,
@@ -679,6 +1060,11 @@ export class WhatsAppService {
 
   async cleanup(): Promise<void> {
     try {
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+      }
+
       if (this.sock) {
         logger.info(
           {
@@ -688,12 +1074,17 @@ export class WhatsAppService {
         );
         // The new event system automatically handles cleanup
         // No need to manually remove listeners as we're using sock.ev.process()
+        const sock = this.sock;
+        this.isStopped = true;
         this.sock = undefined;
+        // Close the websocket too, otherwise the old socket keeps receiving messages
+        sock.end(undefined);
       }
 
       // Reset state
       this.connectionState = "close";
       this.isAuthenticated = false;
+      this.pairing = null;
 
       logger.info(
         {
@@ -773,6 +1164,7 @@ export class WhatsAppService {
       this.connectionState = "close";
       this.isAuthenticated = false;
       this.latestQR = null;
+      this.pairing = null;
       this.targetGroups = [];
       this.authState = undefined;
 
@@ -797,7 +1189,11 @@ export class WhatsAppService {
     this.onLogoutCallback = callback;
   }
 
-  private notifyLogout(): void {
+  private notifyLogout(statusCode?: number): void {
+    eventBus.publish(this.userId, "whatsapp.logged_out", {
+      status_code: statusCode ?? null,
+    });
+
     if (this.onLogoutCallback) {
       this.onLogoutCallback();
     }
@@ -841,6 +1237,53 @@ export class WhatsAppService {
     }
   }
 
+  // Find the message a reply quotes. Text, media and document replies all
+  // carry contextInfo on their content object.
+  private extractQuotedContext(
+    message: any
+  ): { stanzaId: string; participant: string | null } | null {
+    if (!message) return null;
+
+    const contents: any[] = [
+      ...Object.values(message),
+      message.documentWithCaptionMessage?.message?.documentMessage,
+    ];
+    for (const content of contents) {
+      const contextInfo = content?.contextInfo;
+      if (contextInfo?.stanzaId) {
+        return {
+          stanzaId: contextInfo.stanzaId,
+          participant: contextInfo.participant || null,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private async isStoredMessage(
+    groupId: string,
+    waMessageId: string
+  ): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+      .from("whatsapp_messages")
+      .select("id")
+      .eq("user_id", this.userId)
+      .eq("group_id", groupId)
+      .eq("wa_message_id", waMessageId)
+      .limit(1);
+
+    if (error) {
+      logger.error(
+        { userId: this.userId, error },
+        "Error looking up quoted message"
+      );
+      return false;
+    }
+
+    return !!data && data.length > 0;
+  }
+
   // Extract plain text from WhatsApp message object
   private extractMessageText(message: any): string {
     if (!message) return "[Empty Message]";
@@ -871,6 +1314,14 @@ export class WhatsAppService {
         return `[Document] ${message.documentMessage.fileName}`;
       }
 
+      // Document messages sent with a caption
+      const captionedDocument =
+        message.documentWithCaptionMessage?.message?.documentMessage;
+      if (captionedDocument) {
+        const parts = [captionedDocument.fileName, captionedDocument.caption];
+        return `[Document] ${parts.filter(Boolean).join(" ")}`;
+      }
+
       // Audio messages
       if (message.audioMessage) {
         return "[Audio Message]";
@@ -893,7 +1344,9 @@ export class WhatsAppService {
 
       // Location messages
       if (message.locationMessage) {
-        return "[Location]";
+        const { name, address } = message.locationMessage;
+        const label = [name, address].filter(Boolean).join(", ");
+        return label ? `[Location] ${label}` : "[Location]";
       }
 
       // Sticker messages
@@ -925,6 +1378,36 @@ export class WhatsAppService {
   }
 
   // Load user group preferences from database
+  /**
+   * The user's active filter profiles, reloaded at most once a minute. On a
+   * failed load the last known profiles (or the default filter) are used.
+   */
+  private async getFilterProfiles(): Promise<FilterProfile[]> {
+    if (
+      this.filterProfiles &&
+      Date.now() - this.filterProfiles.loadedAt < FILTER_PROFILE_CACHE_MS
+    ) {
+      return this.filterProfiles.profiles;
+    }
+
+    try {
+      const profiles = await this.filterProfileService.listActiveProfiles(
+        this.userId
+      );
+      this.filterProfiles = { profiles, loadedAt: Date.now() };
+    } catch (error) {
+      logger.warn(
+        {
+          userId: this.userId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to load filter profiles"
+      );
+    }
+
+    return this.filterProfiles?.profiles || [];
+  }
+
   private async loadUserGroupPreferences() {
     try {
       const { data, error } = await supabaseAdmin
@@ -0,0 +1,26 @@
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Randomise the delay between 50% and 100% to avoid thundering herds
+  jitter?: boolean;
+}
+
+/**
+ * Exponential backoff delay for the given attempt (1-based)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: BackoffOptions
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const delay = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * Math.pow(2, exponent)
+  );
+
+  if (!options.jitter) {
+    return delay;
+  }
+
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
@@ -0,0 +1,141 @@
+/**
+ * Small fuzzy matching helpers used to recognise the same property when it is
+ * re-posted by different brokers with slightly different wording.
+ */
+
+// Words that say nothing about which property it is
+const STOP_WORDS = new Set([
+  "the",
+  "a",
+  "an",
+  "in",
+  "at",
+  "near",
+  "of",
+  "and",
+  "opp",
+  "opposite",
+  "behind",
+  "road",
+  "rd",
+]);
+
+// "Andheri (E)" is "Andheri East"
+const TOKEN_ALIASES: Record<string, string> = {
+  e: "east",
+  w: "west",
+};
+
+// Andheri East and Andheri West are different places
+const DIRECTIONS = new Set(["east", "west", "north", "south"]);
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace
+ */
+export function normalizeText(text: string | null | undefined): string {
+  return (text || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tokens(text: string | null | undefined): Set<string> {
+  return new Set(
+    normalizeText(text)
+      .split(" ")
+      .filter((token) => token.length > 0 && !STOP_WORDS.has(token))
+      .map((token) => TOKEN_ALIASES[token] || token)
+  );
+}
+
+function bigrams(text: string): Set<string> {
+  const compact = text.replace(/\s/g, "");
+  const result = new Set<string>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.add(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Similarity of two short strings between 0 and 1. Uses the better of token
+ * overlap ("Lodha Park, Worli" vs "Worli Lodha Park") and character bigram
+ * overlap ("Hiranandani" vs "Hiranandni"). Different directions ("East" vs
+ * "West") never match.
+ */
+export function textSimilarity(
+  a: string | null | undefined,
+  b: string | null | undefined
+): number {
+  const tokensA = tokens(a);
+  const tokensB = tokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  if (directionsConflict(tokensA, tokensB)) return 0;
+
+  // Jaccard: "Andheri" is not a full match for "Andheri West, Lokhandwala"
+  const sharedTokens = Array.from(tokensA).filter((t) => tokensB.has(t));
+  const tokenScore =
+    sharedTokens.length / (tokensA.size + tokensB.size - sharedTokens.length);
+
+  const bigramsA = bigrams(Array.from(tokensA).join(" "));
+  const bigramsB = bigrams(Array.from(tokensB).join(" "));
+  const sharedBigrams = Array.from(bigramsA).filter((g) => bigramsB.has(g));
+  const bigramScore =
+    bigramsA.size + bigramsB.size > 0
+      ? (2 * sharedBigrams.length) / (bigramsA.size + bigramsB.size)
+      : 0;
+
+  return Math.max(tokenScore, bigramScore);
+}
+
+/**
+ * Share of `part`'s words found in `whole`, between 0 and 1: a preferred
+ * area "Powai" is fully inside "Hiranandani Gardens, Powai"
+ */
+export function textContainment(
+  part: string | null | undefined,
+  whole: string | null | undefined
+): number {
+  const partTokens = tokens(part);
+  const wholeTokens = tokens(whole);
+  if (partTokens.size === 0 || wholeTokens.size === 0) return 0;
+  if (directionsConflict(partTokens, wholeTokens)) return 0;
+
+  const shared = Array.from(partTokens).filter((t) => wholeTokens.has(t));
+  return shared.length / partTokens.size;
+}
+
+function directionsConflict(a: Set<string>, b: Set<string>): boolean {
+  const directionsA = Array.from(a).filter((t) => DIRECTIONS.has(t));
+  const directionsB = Array.from(b).filter((t) => DIRECTIONS.has(t));
+  return (
+    directionsA.length > 0 &&
+    directionsB.length > 0 &&
+    !directionsA.some((t) => b.has(t))
+  );
+}
+
+/**
+ * Whether two numbers are within a relative tolerance of each other
+ */
+export function numbersClose(a: number, b: number, tolerance: number): boolean {
+  if (a === b) return true;
+  const larger = Math.max(Math.abs(a), Math.abs(b));
+  return Math.abs(a - b) <= larger * tolerance;
+}
+
+/**
+ * Whether two [min, max] ranges overlap once widened by a relative tolerance
+ */
+export function rangesOverlap(
+  a: [number, number],
+  b: [number, number],
+  tolerance: number
+): boolean {
+  return (
+    a[0] * (1 - tolerance) <= b[1] * (1 + tolerance) &&
+    b[0] * (1 - tolerance) <= a[1] * (1 + tolerance)
+  );
+}
@@ -0,0 +1,119 @@
+import { ParsedRealEstateProperty } from "../services/database";
+
+/**
+ * Map exports of parsed properties. Both formats are written as a header, one
+ * chunk per property and a footer, so large exports can be streamed.
+ */
+
+export interface GeoExportFormat {
+  contentType: string;
+  extension: string;
+  header(): string;
+  // sourceUrl links back to the WhatsApp message the property came from
+  feature(
+    property: ParsedRealEstateProperty,
+    sourceUrl: string,
+    isFirst: boolean
+  ): string;
+  footer(): string;
+}
+
+function featureProperties(
+  property: ParsedRealEstateProperty,
+  sourceUrl: string
+) {
+  const message = property.whatsapp_messages;
+  return {
+    id: property.id,
+    name: property.property_name || null,
+    listing_type: property.listing_type,
+    property_type: property.property_type || null,
+    price: property.price || null,
+    price_min: property.price_min ?? null,
+    price_max: property.price_max ?? null,
+    price_period: property.price_period || null,
+    bedrooms: property.bedrooms ?? null,
+    area_sqft: property.area_sqft ?? null,
+    location: property.location || null,
+    contact_info: property.contact_info || null,
+    group_name: message?.group_name || null,
+    sender: message?.sender || null,
+    message_id: property.message_id,
+    source_url: sourceUrl,
+    created_at: property.created_at,
+  };
+}
+
+export const geoJsonExport: GeoExportFormat = {
+  contentType: "application/geo+json",
+  extension: "geojson",
+  header: () => '{"type":"FeatureCollection","features":[\n',
+  feature: (property, sourceUrl, isFirst) =>
+    (isFirst ? "" : ",\n") +
+    JSON.stringify({
+      type: "Feature",
+      // GeoJSON positions are [longitude, latitude]
+      geometry: {
+        type: "Point",
+        coordinates: [property.longitude, property.latitude],
+      },
+      properties: featureProperties(property, sourceUrl),
+    }),
+  footer: () => "\n]}\n",
+};
+
+export const kmlExport: GeoExportFormat = {
+  contentType: "application/vnd.google-earth.kml+xml",
+  extension: "kml",
+  header: () =>
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n' +
+    "<name>Property listings</name>\n",
+  feature: (property, sourceUrl) => {
+    const fields = featureProperties(property, sourceUrl);
+    const title =
+      fields.name ||
+      [fields.bedrooms && `${fields.bedrooms} BHK`, fields.location]
+        .filter(Boolean)
+        .join(", ") ||
+      "Property";
+    const data = Object.entries(fields)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(
+        ([key, value]) =>
+          `<Data name="${key}"><value>${escapeXml(
+            String(value)
+          )}</value></Data>`
+      )
+      .join("");
+
+    return (
+      "<Placemark>" +
+      `<name>${escapeXml(title)}</name>` +
+      `<description>${escapeXml(
+        [fields.price, fields.contact_info, sourceUrl]
+          .filter(Boolean)
+          .join("\n")
+      )}</description>` +
+      `<ExtendedData>${data}</ExtendedData>` +
+      // KML coordinates are longitude,latitude
+      `<Point><coordinates>${property.longitude},${property.latitude}</coordinates></Point>` +
+      "</Placemark>\n"
+    );
+  },
+  footer: () => "</Document>\n</kml>\n",
+};
+
+export const GEO_EXPORT_FORMATS: Record<string, GeoExportFormat> = {
+  geojson: geoJsonExport,
+  kml: kmlExport,
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
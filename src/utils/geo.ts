@@ -0,0 +1,165 @@
+/**
+ * Small geometry helpers for radius and map-viewport searches. Distances are
+ * great-circle distances on a spherical earth, plenty for city-scale search.
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface GeoCluster {
+  latitude: number;
+  longitude: number;
+  count: number;
+  // Extent of the clustered points, for zooming in on a cluster
+  bbox: [number, number, number, number];
+  // Set when the cluster is a single property
+  property_id?: string;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Smallest box containing the circle, used to pre-filter in the database
+ */
+export function boundingBoxAround(
+  center: GeoPoint,
+  radiusKm: number
+): BoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const lngDelta =
+    radiusKm /
+    (KM_PER_DEGREE_LATITUDE *
+      Math.max(Math.cos(toRadians(center.latitude)), 0.01));
+
+  return {
+    west: center.longitude - lngDelta,
+    south: center.latitude - latDelta,
+    east: center.longitude + lngDelta,
+    north: center.latitude + latDelta,
+  };
+}
+
+export function intersectBoundingBoxes(
+  a: BoundingBox,
+  b: BoundingBox
+): BoundingBox {
+  return {
+    west: Math.max(a.west, b.west),
+    south: Math.max(a.south, b.south),
+    east: Math.min(a.east, b.east),
+    north: Math.min(a.north, b.north),
+  };
+}
+
+/**
+ * Parse "lat,lng". Returns null for anything that is not a valid coordinate.
+ */
+export function parseGeoPoint(value: unknown): GeoPoint | null {
+  const parts = parseNumbers(value, 2);
+  if (!parts) return null;
+
+  const [latitude, longitude] = parts;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+/**
+ * Parse "west,south,east,north" (the GeoJSON bbox order, i.e.
+ * minLng,minLat,maxLng,maxLat)
+ */
+export function parseBoundingBox(value: unknown): BoundingBox | null {
+  const parts = parseNumbers(value, 4);
+  if (!parts) return null;
+
+  const [west, south, east, north] = parts;
+  if (
+    Math.abs(south) > 90 ||
+    Math.abs(north) > 90 ||
+    Math.abs(west) > 180 ||
+    Math.abs(east) > 180 ||
+    south > north ||
+    west > east
+  ) {
+    return null;
+  }
+  return { west, south, east, north };
+}
+
+/**
+ * Group points into grid cells sized for a web-map zoom level (roughly a
+ * quarter of a 256px tile), so a zoomed-out map gets a few dozen markers
+ * instead of thousands
+ */
+export function clusterByGrid(
+  points: (GeoPoint & { id: string })[],
+  zoom: number
+): GeoCluster[] {
+  const cellSize = 360 / Math.pow(2, zoom) / 4;
+  const cells = new Map<string, (GeoPoint & { id: string })[]>();
+
+  for (const point of points) {
+    const key = `${Math.floor(point.latitude / cellSize)}:${Math.floor(
+      point.longitude / cellSize
+    )}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  }
+
+  return Array.from(cells.values()).map((cell) => {
+    const latitudes = cell.map((point) => point.latitude);
+    const longitudes = cell.map((point) => point.longitude);
+    return {
+      latitude: average(latitudes),
+      longitude: average(longitudes),
+      count: cell.length,
+      bbox: [
+        Math.min(...longitudes),
+        Math.min(...latitudes),
+        Math.max(...longitudes),
+        Math.max(...latitudes),
+      ],
+      ...(cell.length === 1 ? { property_id: cell[0].id } : {}),
+    };
+  });
+}
+
+function parseNumbers(value: unknown, count: number): number[] | null {
+  if (typeof value !== "string") return null;
+
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length !== count || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  return parts;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
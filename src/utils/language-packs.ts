@@ -0,0 +1,325 @@
+/**
+ * Language detection and per-language keyword/pattern packs for
+ * PropertyMessageFilter. Groups post in English, Hindi, Marathi and Gujarati,
+ * and in Hinglish (Hindi written in Latin script).
+ *
+ * Devanagari and Gujarati characters are not \w, so the native-script
+ * patterns avoid \b and rely on whitespace instead.
+ */
+
+export type DetectedLanguage = "en" | "hinglish" | "hi" | "mr" | "gu";
+
+export const LANGUAGE_NAMES: Record<DetectedLanguage, string> = {
+  en: "English",
+  hinglish: "Hinglish (Hindi in Latin script)",
+  hi: "Hindi",
+  mr: "Marathi",
+  gu: "Gujarati",
+};
+
+export interface LanguagePack {
+  keywords: string[];
+  requirementPatterns: RegExp[];
+  // Offer wording: renting out ("kiraye pe dena") and selling ("bechna hai")
+  rentalPatterns: RegExp[];
+  salePatterns: RegExp[];
+  pricePatterns: RegExp[];
+  bhkPatterns: RegExp[];
+  areaPatterns: RegExp[];
+  floorPatterns: RegExp[];
+  // Price unit words and the English unit the price normalizer reads
+  priceUnits: [RegExp, string][];
+}
+
+const DEVANAGARI = /[ऀ-ॿ]/g;
+const GUJARATI = /[઀-૿]/g;
+const DEVANAGARI_DIGITS = /[०-९]/g;
+const GUJARATI_DIGITS = /[૦-૯]/g;
+
+// Words that tell Marathi from Hindi, both written in Devanagari
+const MARATHI_MARKERS = [
+  "आहे",
+  "आहेत",
+  "साठी",
+  "मध्ये",
+  "भाड्याने",
+  "विक्री",
+  "पाहिजे",
+  "सदनिका",
+  "मजला",
+  "कोटी",
+  "दरमहा",
+];
+const HINDI_MARKERS = [
+  "है",
+  "हैं",
+  "के लिए",
+  "में",
+  "किराये",
+  "किराए",
+  "बेचना",
+  "चाहिए",
+  "मंजिल",
+  "करोड़",
+  "प्रति माह",
+];
+const HINGLISH_MARKERS =
+  /\b(?:hai|hain|kiraye?|kiraaye|kiraya|bechna|bechni|bikau|chahiye|chaiye|milega|milegi|wala|wali|makaa?n|dukaa?n|ghar|jagah|khali|mein|ke liye|pe|dena|lena|hazaa?r|manzil)\b/gi;
+
+/**
+ * Replace Devanagari and Gujarati digits with ASCII ones ("२ बीएचके" ->
+ * "2 बीएचके") so numeric patterns work on every script
+ */
+export function normalizeDigits(text: string): string {
+  return text
+    .replace(DEVANAGARI_DIGITS, (digit) => String(digit.charCodeAt(0) - 0x0966))
+    .replace(GUJARATI_DIGITS, (digit) => String(digit.charCodeAt(0) - 0x0ae6));
+}
+
+/**
+ * Rewrite native price units in English ("८५ लाख" -> "85 lakh") so the
+ * English price patterns and the price normalizer can read them
+ */
+export function toEnglishPriceUnits(
+  text: string,
+  language: DetectedLanguage = detectLanguage(text)
+): string {
+  const units = LANGUAGE_PACKS[language]?.priceUnits || [];
+  return units.reduce(
+    (result, [pattern, unit]) => result.replace(pattern, unit),
+    normalizeDigits(text)
+  );
+}
+
+/**
+ * Guess the main language of a message from its script and a few marker
+ * words. Mixed posts ("2 BHK फ्लैट") count as the native language.
+ */
+export function detectLanguage(message: string): DetectedLanguage {
+  const text = (message || "").toLowerCase();
+  const devanagari = text.match(DEVANAGARI)?.length || 0;
+  const gujarati = text.match(GUJARATI)?.length || 0;
+
+  if (gujarati > 0 && gujarati >= devanagari) return "gu";
+
+  if (devanagari > 0) {
+    const marathi = MARATHI_MARKERS.filter((word) => text.includes(word));
+    const hindi = HINDI_MARKERS.filter((word) => text.includes(word));
+    return marathi.length > hindi.length ? "mr" : "hi";
+  }
+
+  // One stray "pe" or "hai" is not enough to call it Hinglish
+  const hinglishWords = new Set(text.match(HINGLISH_MARKERS) || []);
+  return hinglishWords.size >= 2 ? "hinglish" : "en";
+}
+
+const HINDI_PACK: LanguagePack = {
+  keywords: [
+    "फ्लैट",
+    "मकान",
+    "घर",
+    "बंगला",
+    "प्लॉट",
+    "जमीन",
+    "ज़मीन",
+    "दुकान",
+    "ऑफिस",
+    "कमरा",
+    "कमरे",
+    "बीएचके",
+    "किराया",
+    "किराये",
+    "किराए",
+    "बिक्री",
+    "बेचना",
+    "खरीद",
+    "लीज",
+    "उपलब्ध",
+    "खाली",
+    "फर्निश्ड",
+    "पार्किंग",
+    "लिफ्ट",
+    "सोसाइटी",
+    "डिपॉजिट",
+    "लाख",
+    "करोड़",
+    "कीमत",
+    "प्रति माह",
+    "वर्ग फुट",
+    "मंजिल",
+    "संपर्क",
+    "मेट्रो",
+    "स्टेशन",
+  ],
+  requirementPatterns: [/चाहिए|चाहिये|ज़रूरत|जरूरत|तलाश/],
+  rentalPatterns: [/किरा[येए]\s*(?:पर|पे)/],
+  salePatterns: [/बेचना|बिकाऊ|बिक्री/],
+  pricePatterns: [
+    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:लाख|करोड़|करोड|हज़ार|हजार)/g,
+    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:प्रति\s*माह|महीना|मासिक)/g,
+  ],
+  bhkPatterns: [/\d+\s*(?:बीएचके|बी\.?\s*एच\.?\s*के)/g],
+  areaPatterns: [/\d+\s*(?:वर्ग\s*(?:फुट|फीट)|स्क्वायर\s*फ[ुी]ट)/g],
+  floorPatterns: [/\d+\s*(?:वीं|वी|वाँ|वां)?\s*मंजिल/g],
+  priceUnits: [
+    [/करो(?:ड़|ड़|ड)/g, "crore"],
+    [/लाख/g, "lakh"],
+    [/हज़ार|हजार/g, "thousand"],
+  ],
+};
+
+const MARATHI_PACK: LanguagePack = {
+  keywords: [
+    "सदनिका",
+    "फ्लॅट",
+    "घर",
+    "बंगला",
+    "प्लॉट",
+    "जमीन",
+    "दुकान",
+    "ऑफिस",
+    "खोली",
+    "बीएचके",
+    "भाड्याने",
+    "भाडे",
+    "विक्री",
+    "विक्रीसाठी",
+    "खरेदी",
+    "लीज",
+    "उपलब्ध",
+    "फर्निश्ड",
+    "पार्किंग",
+    "लिफ्ट",
+    "सोसायटी",
+    "डिपॉझिट",
+    "अनामत",
+    "लाख",
+    "कोटी",
+    "किंमत",
+    "दरमहा",
+    "चौरस फूट",
+    "मजला",
+    "संपर्क",
+    "मेट्रो",
+    "स्टेशन",
+  ],
+  requirementPatterns: [/पाहिजे|हव[ाेी](?=\s|$|[,.!])|आवश्यक/],
+  rentalPatterns: [/भाड्याने/],
+  salePatterns: [/विक्री|विकणे|विकायचा/],
+  pricePatterns: [
+    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:लाख|कोटी|हजार)/g,
+    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:दरमहा|प्रति\s*महिना)/g,
+  ],
+  bhkPatterns: [/\d+\s*(?:बीएचके|बी\.?\s*एच\.?\s*के)/g],
+  areaPatterns: [/\d+\s*(?:चौरस\s*फूट|स्क्वेअर\s*फूट)/g],
+  floorPatterns: [/\d+\s*(?:वा|वी|ला|रा|था)?\s*मजला/g],
+  priceUnits: [
+    [/कोटी/g, "crore"],
+    [/लाख/g, "lakh"],
+    [/हजार/g, "thousand"],
+  ],
+};
+
+const GUJARATI_PACK: LanguagePack = {
+  keywords: [
+    "ફ્લેટ",
+    "મકાન",
+    "ઘર",
+    "બંગલો",
+    "પ્લોટ",
+    "જમીન",
+    "દુકાન",
+    "ઓફિસ",
+    "રૂમ",
+    "બીએચકે",
+    "ભાડે",
+    "ભાડું",
+    "વેચાણ",
+    "વેચવાનો",
+    "ખરીદી",
+    "લીઝ",
+    "ઉપલબ્ધ",
+    "ફર્નિશ્ડ",
+    "પાર્કિંગ",
+    "લિફ્ટ",
+    "સોસાયટી",
+    "ડિપોઝિટ",
+    "લાખ",
+    "કરોડ",
+    "કિંમત",
+    "મહિને",
+    "ચોરસ ફૂટ",
+    "સ્ક્વેર ફૂટ",
+    "માળ",
+    "સંપર્ક",
+    "મેટ્રો",
+    "સ્ટેશન",
+  ],
+  requirementPatterns: [/જોઈએ|જોઇએ|જરૂર/],
+  rentalPatterns: [/ભાડે/],
+  salePatterns: [/વેચાણ|વેચવાન/],
+  pricePatterns: [
+    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:લાખ|કરોડ|હજાર)/g,
+    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:મહિને|પ્રતિ\s*માસ)/g,
+  ],
+  bhkPatterns: [/\d+\s*(?:બીએચકે|બી\.?\s*એચ\.?\s*કે)/g],
+  areaPatterns: [/\d+\s*(?:ચોરસ\s*ફૂટ|સ્ક્વેર\s*ફૂટ)/g],
+  floorPatterns: [/\d+\s*(?:મો|મા)?\s*માળ/g],
+  priceUnits: [
+    [/કરોડ/g, "crore"],
+    [/લાખ/g, "lakh"],
+    [/હજાર/g, "thousand"],
+  ],
+};
+
+const HINGLISH_PACK: LanguagePack = {
+  keywords: [
+    "kiraya",
+    "kiraye",
+    "kiraaye",
+    "bechna",
+    "bechni",
+    // Rent-out and sale phrases also count on their own
+    "kiraye pe",
+    "kiraye par",
+    "bechna hai",
+    "bechni hai",
+    "dena hai",
+    "deni hai",
+    "bikau",
+    "bikri",
+    "makan",
+    "makaan",
+    "ghar",
+    "dukan",
+    "dukaan",
+    "jagah",
+    "zameen",
+    "jameen",
+    "khali",
+    "milega",
+    "milegi",
+    "manzil",
+    "sampark",
+  ],
+  requirementPatterns: [/\b(?:chahiye|chaiye|chahie|zaroorat|jarurat)\b/i],
+  rentalPatterns: [
+    /\b(?:kiraya|kiraye|kiraaye)\s*(?:pe|par|pr)\b/i,
+    /\b(?:dena|deni)\s*(?:hai|he|h)\b/i,
+  ],
+  salePatterns: [/\b(?:bechna|bechni)\s*(?:hai|he|h)\b/i, /\bbikau\b/i],
+  pricePatterns: [/\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:hazaa?r|hajar|lac|cr)\b/gi],
+  bhkPatterns: [],
+  areaPatterns: [],
+  floorPatterns: [/\d+(?:st|nd|rd|th)?\s*manzil/gi],
+  priceUnits: [[/\b(?:hazaa?r|hajar)\b/gi, "thousand"]],
+};
+
+export const LANGUAGE_PACKS: Record<DetectedLanguage, LanguagePack | null> = {
+  // The filter's own lists are the English pack
+  en: null,
+  hinglish: HINGLISH_PACK,
+  hi: HINDI_PACK,
+  mr: MARATHI_PACK,
+  gu: GUJARATI_PACK,
+};
@@ -0,0 +1,277 @@
+/**
+ * Offline gazetteer of localities that show up in the monitored groups, with
+ * approximate centre coordinates. Names are matched after normalizeText, so
+ * "Andheri (W)" and "andheri west" both find "andheri west".
+ */
+export interface Locality {
+  name: string;
+  city: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+export const LOCALITIES: Locality[] = [
+  // Mumbai - western suburbs
+  { name: "andheri", city: "Mumbai", latitude: 19.1197, longitude: 72.8468 },
+  {
+    name: "andheri west",
+    city: "Mumbai",
+    latitude: 19.1364,
+    longitude: 72.8296,
+    aliases: ["lokhandwala", "versova", "four bungalows"],
+  },
+  {
+    name: "andheri east",
+    city: "Mumbai",
+    latitude: 19.1136,
+    longitude: 72.8697,
+    aliases: ["marol", "chakala", "saki naka"],
+  },
+  { name: "bandra", city: "Mumbai", latitude: 19.0596, longitude: 72.8295 },
+  {
+    name: "bandra west",
+    city: "Mumbai",
+    latitude: 19.0596,
+    longitude: 72.8295,
+    aliases: ["pali hill", "carter road", "bandstand"],
+  },
+  {
+    name: "bandra east",
+    city: "Mumbai",
+    latitude: 19.0607,
+    longitude: 72.8499,
+  },
+  {
+    name: "bandra kurla complex",
+    city: "Mumbai",
+    latitude: 19.066,
+    longitude: 72.868,
+    aliases: ["bkc"],
+  },
+  {
+    name: "khar",
+    city: "Mumbai",
+    latitude: 19.07,
+    longitude: 72.834,
+    aliases: ["khar west"],
+  },
+  { name: "santacruz", city: "Mumbai", latitude: 19.081, longitude: 72.841 },
+  {
+    name: "santacruz west",
+    city: "Mumbai",
+    latitude: 19.081,
+    longitude: 72.837,
+  },
+  {
+    name: "santacruz east",
+    city: "Mumbai",
+    latitude: 19.079,
+    longitude: 72.855,
+    aliases: ["kalina"],
+  },
+  { name: "vile parle", city: "Mumbai", latitude: 19.1, longitude: 72.843 },
+  {
+    name: "vile parle west",
+    city: "Mumbai",
+    latitude: 19.106,
+    longitude: 72.836,
+  },
+  {
+    name: "vile parle east",
+    city: "Mumbai",
+    latitude: 19.099,
+    longitude: 72.849,
+  },
+  { name: "juhu", city: "Mumbai", latitude: 19.1075, longitude: 72.8263 },
+  { name: "jogeshwari", city: "Mumbai", latitude: 19.14, longitude: 72.849 },
+  {
+    name: "jogeshwari west",
+    city: "Mumbai",
+    latitude: 19.138,
+    longitude: 72.844,
+  },
+  {
+    name: "jogeshwari east",
+    city: "Mumbai",
+    latitude: 19.135,
+    longitude: 72.862,
+  },
+  { name: "goregaon", city: "Mumbai", latitude: 19.165, longitude: 72.856 },
+  {
+    name: "goregaon west",
+    city: "Mumbai",
+    latitude: 19.164,
+    longitude: 72.849,
+  },
+  {
+    name: "goregaon east",
+    city: "Mumbai",
+    latitude: 19.166,
+    longitude: 72.863,
+  },
+  { name: "malad", city: "Mumbai", latitude: 19.187, longitude: 72.849 },
+  { name: "malad west", city: "Mumbai", latitude: 19.187, longitude: 72.84 },
+  { name: "malad east", city: "Mumbai", latitude: 19.186, longitude: 72.86 },
+  {
+    name: "kandivali",
+    city: "Mumbai",
+    latitude: 19.205,
+    longitude: 72.851,
+    aliases: ["kandivli"],
+  },
+  {
+    name: "kandivali west",
+    city: "Mumbai",
+    latitude: 19.205,
+    longitude: 72.839,
+    aliases: ["kandivli west"],
+  },
+  {
+    name: "kandivali east",
+    city: "Mumbai",
+    latitude: 19.204,
+    longitude: 72.864,
+    aliases: ["kandivli east", "thakur village"],
+  },
+  { name: "borivali", city: "Mumbai", latitude: 19.23, longitude: 72.857 },
+  {
+    name: "borivali west",
+    city: "Mumbai",
+    latitude: 19.231,
+    longitude: 72.852,
+  },
+  {
+    name: "borivali east",
+    city: "Mumbai",
+    latitude: 19.229,
+    longitude: 72.864,
+  },
+  { name: "dahisar", city: "Mumbai", latitude: 19.25, longitude: 72.86 },
+  // Mumbai - central and eastern suburbs
+  {
+    name: "powai",
+    city: "Mumbai",
+    latitude: 19.1176,
+    longitude: 72.906,
+    aliases: ["hiranandani gardens"],
+  },
+  { name: "chandivali", city: "Mumbai", latitude: 19.11, longitude: 72.897 },
+  { name: "kurla", city: "Mumbai", latitude: 19.0726, longitude: 72.8845 },
+  { name: "chembur", city: "Mumbai", latitude: 19.0522, longitude: 72.9005 },
+  { name: "ghatkopar", city: "Mumbai", latitude: 19.086, longitude: 72.9081 },
+  { name: "vikhroli", city: "Mumbai", latitude: 19.111, longitude: 72.928 },
+  { name: "bhandup", city: "Mumbai", latitude: 19.144, longitude: 72.938 },
+  { name: "mulund", city: "Mumbai", latitude: 19.1726, longitude: 72.956 },
+  { name: "sion", city: "Mumbai", latitude: 19.04, longitude: 72.862 },
+  { name: "wadala", city: "Mumbai", latitude: 19.017, longitude: 72.865 },
+  // Mumbai - island city
+  { name: "worli", city: "Mumbai", latitude: 19.0176, longitude: 72.8172 },
+  { name: "lower parel", city: "Mumbai", latitude: 18.998, longitude: 72.83 },
+  { name: "parel", city: "Mumbai", latitude: 19.0, longitude: 72.84 },
+  { name: "prabhadevi", city: "Mumbai", latitude: 19.016, longitude: 72.829 },
+  { name: "dadar", city: "Mumbai", latitude: 19.0178, longitude: 72.8478 },
+  { name: "mahim", city: "Mumbai", latitude: 19.039, longitude: 72.842 },
+  { name: "matunga", city: "Mumbai", latitude: 19.027, longitude: 72.855 },
+  { name: "byculla", city: "Mumbai", latitude: 18.979, longitude: 72.833 },
+  { name: "tardeo", city: "Mumbai", latitude: 18.97, longitude: 72.813 },
+  { name: "breach candy", city: "Mumbai", latitude: 18.968, longitude: 72.805 },
+  { name: "malabar hill", city: "Mumbai", latitude: 18.955, longitude: 72.798 },
+  { name: "marine lines", city: "Mumbai", latitude: 18.944, longitude: 72.823 },
+  { name: "churchgate", city: "Mumbai", latitude: 18.932, longitude: 72.826 },
+  { name: "cuffe parade", city: "Mumbai", latitude: 18.913, longitude: 72.82 },
+  { name: "colaba", city: "Mumbai", latitude: 18.9067, longitude: 72.8147 },
+  // Mumbai Metropolitan Region
+  {
+    name: "thane",
+    city: "Thane",
+    latitude: 19.2183,
+    longitude: 72.9781,
+    aliases: ["thane west"],
+  },
+  {
+    name: "mira road",
+    city: "Mira-Bhayandar",
+    latitude: 19.281,
+    longitude: 72.869,
+  },
+  {
+    name: "bhayandar",
+    city: "Mira-Bhayandar",
+    latitude: 19.301,
+    longitude: 72.851,
+    aliases: ["bhayander"],
+  },
+  { name: "vasai", city: "Vasai-Virar", latitude: 19.391, longitude: 72.839 },
+  { name: "virar", city: "Vasai-Virar", latitude: 19.455, longitude: 72.811 },
+  { name: "vashi", city: "Navi Mumbai", latitude: 19.0771, longitude: 72.9986 },
+  { name: "nerul", city: "Navi Mumbai", latitude: 19.033, longitude: 73.018 },
+  {
+    name: "belapur",
+    city: "Navi Mumbai",
+    latitude: 19.023,
+    longitude: 73.04,
+    aliases: ["cbd belapur"],
+  },
+  { name: "kharghar", city: "Navi Mumbai", latitude: 19.047, longitude: 73.07 },
+  {
+    name: "panvel",
+    city: "Navi Mumbai",
+    latitude: 18.9894,
+    longitude: 73.1175,
+  },
+  // Pune
+  { name: "baner", city: "Pune", latitude: 18.559, longitude: 73.7868 },
+  { name: "aundh", city: "Pune", latitude: 18.558, longitude: 73.8075 },
+  { name: "hinjewadi", city: "Pune", latitude: 18.5912, longitude: 73.7389 },
+  { name: "wakad", city: "Pune", latitude: 18.599, longitude: 73.76 },
+  { name: "kothrud", city: "Pune", latitude: 18.5074, longitude: 73.8077 },
+  { name: "viman nagar", city: "Pune", latitude: 18.5679, longitude: 73.9143 },
+  { name: "koregaon park", city: "Pune", latitude: 18.5362, longitude: 73.894 },
+  { name: "kharadi", city: "Pune", latitude: 18.5515, longitude: 73.9348 },
+  { name: "hadapsar", city: "Pune", latitude: 18.5089, longitude: 73.926 },
+  // Bengaluru
+  {
+    name: "whitefield",
+    city: "Bengaluru",
+    latitude: 12.9698,
+    longitude: 77.75,
+  },
+  {
+    name: "koramangala",
+    city: "Bengaluru",
+    latitude: 12.9352,
+    longitude: 77.6245,
+  },
+  {
+    name: "indiranagar",
+    city: "Bengaluru",
+    latitude: 12.9784,
+    longitude: 77.6408,
+  },
+  {
+    name: "hsr layout",
+    city: "Bengaluru",
+    latitude: 12.9116,
+    longitude: 77.6474,
+  },
+  {
+    name: "electronic city",
+    city: "Bengaluru",
+    latitude: 12.8452,
+    longitude: 77.6602,
+  },
+  {
+    name: "marathahalli",
+    city: "Bengaluru",
+    latitude: 12.9569,
+    longitude: 77.7011,
+  },
+  {
+    name: "jayanagar",
+    city: "Bengaluru",
+    latitude: 12.925,
+    longitude: 77.5938,
+  },
+  { name: "hebbal", city: "Bengaluru", latitude: 13.0358, longitude: 77.597 },
+];
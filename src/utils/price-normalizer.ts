@@ -0,0 +1,249 @@
+/**
+ * Price Normalizer
+ *
+ * Turns the free-form Indian price text found in listings ("₹1.25 Cr",
+ * "85k per month", "80-90L", "Rs 12,500 psf") into rupee amounts that can be
+ * searched and sorted. Per square foot rates are kept apart in
+ * price_per_sqft, so price_min/price_max always hold a whole-property amount.
+ * Deposits and negotiable markers are picked up from the price text or,
+ * failing that, from the full message.
+ */
+
+export type PriceUnit = "INR";
+export type PricePeriod = "total" | "month" | "year";
+
+export interface NormalizedPrice {
+  price_min: number | null;
+  price_max: number | null;
+  price_unit: PriceUnit | null;
+  price_period: PricePeriod | null;
+  price_per_sqft: number | null;
+  deposit_amount: number | null;
+  price_negotiable: boolean | null;
+}
+
+const UNIT_MULTIPLIERS: [RegExp, number][] = [
+  [/^(?:crores?|cr)$/, 10000000],
+  [/^(?:lakhs?|lacs?|lac|l)$/, 100000],
+  [/^(?:thousand|k)$/, 1000],
+];
+
+const UNIT = "crores?|cr|lakhs?|lacs?|lac|l|thousand|k";
+const AMOUNT = "\\d+(?:\\.\\d+)?";
+// "80-90L", "80 L to 90 L", "1.1 - 1.3 cr"
+const RANGE_PATTERN = new RegExp(
+  `(${AMOUNT})\\s*(${UNIT})?\\.?\\s*(?:-|–|to)\\s*(${AMOUNT})\\s*(${UNIT})?\\b`,
+  "i"
+);
+const SINGLE_PATTERN = new RegExp(`(${AMOUNT})\\s*(${UNIT})?\\b`, "gi");
+// "2 BHK", "1150 sqft", "5th floor", "12/20": numbers that are not amounts
+const MEASUREMENT_PATTERN =
+  /^\s*(?:bhk|b\s*h\s*k|rk|bed|br\b|sq|square|carpet|built|floors?\b|st\b|nd\b|rd\b|th\b|\/\s*\d)/i;
+// "deposit: 2L", "security deposit of 1.5 lakh", "2 lakh deposit"
+const DEPOSIT_PATTERN = new RegExp(
+  `deposit\\s*(?:amount)?\\s*(?:of|is)?\\s*[:\\-=]?\\s*(${AMOUNT}\\s*(?:${UNIT})?)\\b|(${AMOUNT}\\s*(?:${UNIT})?)\\s*(?:security\\s*)?deposit`,
+  "i"
+);
+// "3 months deposit", "deposit 6 months"
+const DEPOSIT_MONTHS_PATTERN =
+  /(\d+)\s*months?\s*(?:rent\s*(?:as\s*)?)?(?:security\s*)?deposit|deposit\s*[:\-=]?\s*(\d+)\s*months?/i;
+
+const PER_SQFT_PATTERN =
+  /\bpsf\b|per\s*sq\.?\s*(?:ft|feet)|\/\s*sq\.?\s*(?:ft|feet)|\/\s*sqft/i;
+const MONTHLY_PATTERN =
+  /per\s*month|\/\s*m(?:onth|o)?\b|\bp\.?\s*m\.?(?=\s|$|[^a-z])|\bmonthly\b|\bpm\b/i;
+const YEARLY_PATTERN =
+  /per\s*(?:year|annum)|\/\s*(?:year|yr|annum)\b|\bp\.?\s*a\.?(?=\s|$|[^a-z])|\byearly\b|\bannual(?:ly)?\b/i;
+const NON_NEGOTIABLE_PATTERN =
+  /non[\s-]*nego(?:tiable)?\b|\bfixed\s*(?:price|rate)?\b|\bfinal\s*price\b/i;
+const NEGOTIABLE_PATTERN = /\bnego(?:tiable)?\b|\bneg\b/i;
+// Seller wording only: "Rate reduced to 1.1 Cr", "price revised 85k pm",
+// "new rent 40k", "now 1.05 cr". Buyers' "I can do 1 cr" or "new budget 80L"
+// do not match.
+const PRICE_UPDATE_PATTERN =
+  /\b(?:reduced|revised|dropped|lowered|increased|updated|changed)\b|\bnew\s*(?:rate|price|rent|asking)\b|\b(?:rate|price|rent|asking)\s*(?:is\s*)?now\b|\bnow\s*(?:only\s*|just\s*)?(?=₹|rs\.?\s*\d|\d)/i;
+// Smaller amounts in a reply are counts ("3 flats left"), not prices
+const MIN_UPDATE_AMOUNT = 1000;
+
+/**
+ * Convert one amount with an optional unit to rupees ("1.25", "cr" -> 12500000)
+ */
+export function toRupees(amount: string, unit?: string): number {
+  const value = parseFloat(amount);
+  const normalizedUnit = (unit || "").toLowerCase().trim();
+  const multiplier =
+    UNIT_MULTIPLIERS.find(([pattern]) => pattern.test(normalizedUnit))?.[1] ||
+    1;
+  return Math.round(value * multiplier);
+}
+
+/**
+ * Parse the first amount (or range) in a piece of price text, in rupees
+ */
+export function parseIndianAmount(
+  text: string
+): { min: number; max: number } | null {
+  const cleaned = cleanPriceText(text);
+
+  const range = cleaned.match(RANGE_PATTERN);
+  const afterRange = range ? cleaned.slice(range.index! + range[0].length) : "";
+  if (range && !MEASUREMENT_PATTERN.test(afterRange)) {
+    // "80-90L": a unit written only once applies to both ends
+    const lowUnit = range[2] || range[4];
+    const highUnit = range[4] || range[2];
+    const low = toRupees(range[1], lowUnit);
+    const high = toRupees(range[3], highUnit);
+    return { min: Math.min(low, high), max: Math.max(low, high) };
+  }
+
+  // "2 BHK 1.2 Cr": prefer an amount with a unit, skip measurements
+  const amounts = Array.from(cleaned.matchAll(SINGLE_PATTERN)).filter(
+    (match) =>
+      !MEASUREMENT_PATTERN.test(cleaned.slice(match.index! + match[0].length))
+  );
+  const single = amounts.find((match) => match[2]) || amounts[0];
+  if (!single) return null;
+
+  const amount = toRupees(single[1], single[2]);
+  return { min: amount, max: amount };
+}
+
+/**
+ * Read a new price from a short reply to a listing. Returns null unless the
+ * reply announces a price change and names an amount after it; `price_text`
+ * is that amount as written.
+ */
+export function parsePriceUpdate(
+  text: string,
+  listingType?: "sale" | "rental" | "lease"
+): (NormalizedPrice & { price_text: string }) | null {
+  const update = text.match(PRICE_UPDATE_PATTERN);
+  if (!update) return null;
+
+  // Only what follows the wording: "reduced from 1.3 Cr to 1.1 Cr" -> "1.1 Cr"
+  let priceText = text.slice(update.index! + update[0].length);
+  const upTo = priceText.match(/^[^\n]*\bto\b/i);
+  if (upTo) priceText = priceText.slice(upTo[0].length);
+  // "1.15 Cr, hurry" -> "1.15 Cr"; "1,25,000" keeps its commas
+  priceText = priceText.split(/[\n;!]|,(?!\d)/)[0].trim();
+  // "New rate: 1.1 Cr", "new price is 1.05 cr" -> the amount alone
+  priceText = priceText.replace(/^(?:is\b)?\s*[:=\-–—]*\s*/i, "");
+
+  const price = normalizePrice(priceText, { listingType, messageText: text });
+  if (price.price_min === null || price.price_min < MIN_UPDATE_AMOUNT) {
+    return null;
+  }
+  return { ...price, price_text: priceText };
+}
+
+/**
+ * Normalize a listing's price text into comparable rupee amounts.
+ * Rentals and leases default to a monthly period, sales to a total price.
+ */
+export function normalizePrice(
+  priceText: string | null | undefined,
+  options: {
+    listingType?: "sale" | "rental" | "lease";
+    messageText?: string;
+    // Turns a per square foot rate into a total price
+    areaSqft?: number | null;
+  } = {}
+): NormalizedPrice {
+  const text = priceText || "";
+  const result: NormalizedPrice = {
+    price_min: null,
+    price_max: null,
+    price_unit: null,
+    price_period: null,
+    price_per_sqft: null,
+    deposit_amount: null,
+    price_negotiable: null,
+  };
+
+  // Keep the deposit out of the rent: "45k rent + 2L deposit"
+  const segments = splitSegments(text);
+  const depositSegment = segments.find((segment) =>
+    /deposit|security/i.test(segment)
+  );
+  const priceSegment = segments.find(
+    (segment) => segment !== depositSegment && /\d/.test(segment)
+  );
+
+  const amount = priceSegment ? parseIndianAmount(priceSegment) : null;
+  if (amount && PER_SQFT_PATTERN.test(priceSegment!)) {
+    result.price_per_sqft = amount.min;
+    // Without an area there is no total to filter or sort on
+    if (options.areaSqft) {
+      result.price_min = amount.min * options.areaSqft;
+      result.price_max = amount.max * options.areaSqft;
+      result.price_unit = "INR";
+      result.price_period = "total";
+    }
+  } else if (amount) {
+    result.price_min = amount.min;
+    result.price_max = amount.max;
+    result.price_unit = "INR";
+    result.price_period = detectPeriod(priceSegment!, options.listingType);
+  }
+
+  result.deposit_amount =
+    findDeposit(depositSegment || "", result) ??
+    findDeposit(options.messageText || "", result);
+
+  result.price_negotiable =
+    detectNegotiable(text) ?? detectNegotiable(options.messageText || "");
+
+  return result;
+}
+
+function cleanPriceText(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      // Indian digit grouping: "1,25,000" -> "125000"
+      .replace(/(\d),(?=\d)/g, "$1")
+      .replace(/₹|\brs\.?|\binr\b/g, " ")
+  );
+}
+
+function splitSegments(text: string): string[] {
+  return cleanPriceText(text)
+    .split(/[,;+\n|&]|\band\b|\bwith\b/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+function detectPeriod(
+  text: string,
+  listingType?: "sale" | "rental" | "lease"
+): PricePeriod {
+  if (YEARLY_PATTERN.test(text)) return "year";
+  if (MONTHLY_PATTERN.test(text)) return "month";
+  return listingType === "rental" || listingType === "lease"
+    ? "month"
+    : "total";
+}
+
+function findDeposit(text: string, price: NormalizedPrice): number | null {
+  const cleaned = cleanPriceText(text);
+
+  // Deposits quoted as a number of months of rent
+  const months = cleaned.match(DEPOSIT_MONTHS_PATTERN);
+  if (months) {
+    return price.price_period === "month" && price.price_min
+      ? parseInt(months[1] || months[2]) * price.price_min
+      : null;
+  }
+
+  const match = cleaned.match(DEPOSIT_PATTERN);
+  if (!match) return null;
+
+  const amount = parseIndianAmount(match[1] || match[2]);
+  return amount ? amount.min : null;
+}
+
+function detectNegotiable(text: string): boolean | null {
+  if (NON_NEGOTIABLE_PATTERN.test(text)) return false;
+  if (NEGOTIABLE_PATTERN.test(text)) return true;
+  return null;
+}
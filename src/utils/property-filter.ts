@@ -6,14 +6,90 @@
  * and scoring to determine if a message is likely a property listing.
  */
 
+import {
+  DetectedLanguage,
+  detectLanguage,
+  LANGUAGE_PACKS,
+  normalizeDigits,
+} from "./language-packs";
+
+// Whether a message offers a property or asks for one
+export type MessageIntent = "offer" | "requirement";
+
 export interface PropertyFilterResult {
   isPropertyListing: boolean;
+  intent: MessageIntent;
+  language: DetectedLanguage;
   confidence: number;
   matchedKeywords: string[];
   matchedPatterns: string[];
   reason: string;
 }
 
+// Points each signal adds to the 0-100 score (too_short is subtracted)
+export interface FilterWeights {
+  keywords_many: number; // 3+ property keywords
+  keywords_some: number; // 2 property keywords
+  keyword_single: number; // 1 property keyword
+  price: number;
+  bhk: number;
+  area: number;
+  contact: number;
+  floor: number;
+  structure: number;
+  numbers: number;
+  emojis: number;
+  requirement: number;
+  offer: number;
+  detailed: number;
+  too_short: number;
+}
+
+export const DEFAULT_FILTER_WEIGHTS: FilterWeights = {
+  keywords_many: 25,
+  keywords_some: 15,
+  keyword_single: 5,
+  price: 20,
+  bhk: 20,
+  area: 15,
+  contact: 10,
+  floor: 5,
+  structure: 10,
+  numbers: 5,
+  emojis: 5,
+  requirement: 35,
+  offer: 20,
+  detailed: 5,
+  too_short: 10,
+};
+
+export const DEFAULT_FILTER_THRESHOLD = 0.6;
+
+// Built-in pattern groups that can be named in required_patterns
+export const FILTER_PATTERN_TYPES = [
+  "price",
+  "bhk",
+  "area",
+  "contact",
+  "floor",
+] as const;
+
+/**
+ * Per-user adjustments to the filter, stored in filter profiles
+ */
+export interface FilterRules {
+  // Counted as property keywords
+  include_keywords?: string[];
+  // Any of these rejects the message, whatever its score
+  exclude_keywords?: string[];
+  weights?: Partial<FilterWeights>;
+  // Minimum confidence (0-1), DEFAULT_FILTER_THRESHOLD when unset
+  threshold?: number;
+  // All must match: a FILTER_PATTERN_TYPES name or case-insensitive text,
+  // with alternatives separated by "|" ("rent|lease|kiraya")
+  required_patterns?: string[];
+}
+
 export class PropertyMessageFilter {
   private static readonly PROPERTY_KEYWORDS = [
     // Property types
@@ -179,28 +255,60 @@ export class PropertyMessageFilter {
     "gud mrng",
   ];
 
-  private static readonly PRICE_PATTERNS = [
-    /₹\s*\d+(?:[,\s]\d+)*(?:\.\d+)?(?:\s*(?:lakh|crore|k|thousand))?/gi,
-    /rs\.?\s*\d+(?:[,\s]\d+)*(?:\.\d+)?(?:\s*(?:lakh|crore|k|thousand))?/gi,
-    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:lakh|crore|k|thousand)/gi,
-    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:per\s*month|per\s*year|monthly|yearly)/gi,
+  // "Required 2BHK in Andheri W", "Client looking for office space", "Need shop on rent"
+  static readonly REQUIREMENT_PATTERNS = [
+    /\b(?:required|requirement|reqd|req)\b/i,
+    /\b(?:wanted|want)\b/i,
+    /\blooking\s*(?:for)?\b/i,
+    /\b(?:need|needed|needs)\b/i,
+    /\bsearching\s*(?:for)?\b/i,
+    /\bbudget\b/i,
+  ];
+
+  // Offer wording that outranks any requirement word: "Owner want to sell",
+  // "Need genuine buyer", "tenant required"
+  static readonly OFFER_PATTERNS = [
+    /\b(?:sell|selling)\b/i,
+    /\b(?:buyers?|tenants?|purchasers?)\s*(?:required|wanted|needed|reqd)\b/i,
+    /\b(?:need|needs|want|wants|required|looking\s*for)\s+(?:an?\s+)?(?:genuine\s+|good\s+|serious\s+|direct\s+)?(?:buyers?|tenants?|purchasers?)\b/i,
+  ];
+
+  // "2BHK for rent", "available": outrank a bare need/want/required, but not
+  // "looking for" or a message that opens with "Required"
+  static readonly AVAILABILITY_PATTERNS = [
+    /\bfor\s*(?:rent|lease|sale)\b/i,
+    /\b(?:sale|resale|available|to\s*let)\b/i,
+  ];
+
+  static readonly STRONG_REQUIREMENT_PATTERNS = [
+    /\b(?:looking|searching)\s*(?:for)?\b/i,
+    /\b(?:requirement|reqd)\b/i,
+    /^\s*(?:required|req|wanted|want|wants|need|needed|needs)\b/i,
   ];
 
-  private static readonly BHK_PATTERNS = [
+  static readonly PRICE_PATTERNS = [
+    /₹\s*\d+(?:[,\s]\d+)*(?:\.\d+)?(?:\s*(?:lakhs?|crores?|k|thousand))?/gi,
+    /rs\.?\s*\d+(?:[,\s]\d+)*(?:\.\d+)?(?:\s*(?:lakhs?|crores?|k|thousand))?/gi,
+    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:lakhs?|crores?|k|thousand)/gi,
+    /\d+(?:\.\d+)?\s*(?:cr|lacs?|l)\b/gi,
+    /\d+(?:[,\s]\d+)*(?:\.\d+)?\s*(?:per\s*month|per\s*year|\/\s*month|monthly|yearly)/gi,
+  ];
+
+  static readonly BHK_PATTERNS = [
     /\d+\s*bhk/gi,
     /\d+\s*bed\s*room/gi,
     /\d+\s*br/gi,
     /\d+\s*b\s*h\s*k/gi,
   ];
 
-  private static readonly AREA_PATTERNS = [
+  static readonly AREA_PATTERNS = [
     /\d+\s*(?:sq\s*ft|sqft|sq\.ft|square\s*feet)/gi,
     /\d+\s*(?:sq\s*m|sqm|square\s*meter)/gi,
     /area\s*[:=]\s*\d+/gi,
     /carpet\s*[:=]\s*\d+/gi,
   ];
 
-  private static readonly CONTACT_PATTERNS = [
+  static readonly CONTACT_PATTERNS = [
     /\d{10}/g, // 10-digit phone numbers
     /\d{3}[-.\s]?\d{3}[-.\s]?\d{4}/g, // Phone with separators
     /\+91[-.\s]?\d{10}/g, // Indian country code
@@ -208,20 +316,72 @@ export class PropertyMessageFilter {
     /call\s*[:=]\s*\d+/gi,
   ];
 
-  private static readonly FLOOR_PATTERNS = [
+  static readonly FLOOR_PATTERNS = [
     /\d+(?:st|nd|rd|th)?\s*floor/gi,
     /floor\s*[:=]\s*\d+/gi,
     /ground\s*floor/gi,
     /basement/gi,
   ];
 
+  /**
+   * Classify a message as a property offer or a buyer/tenant requirement
+   */
+  public static classifyIntent(
+    message: string,
+    language: DetectedLanguage = detectLanguage(message)
+  ): MessageIntent {
+    const text = (message || "").toLowerCase();
+    if (this.OFFER_PATTERNS.some((pattern) => pattern.test(text))) {
+      return "offer";
+    }
+
+    const packPatterns = LANGUAGE_PACKS[language]?.requirementPatterns || [];
+    const patterns = [...this.REQUIREMENT_PATTERNS, ...packPatterns];
+    const matches = patterns.filter((pattern) => pattern.test(text)).length;
+
+    const strongRequirement = [
+      ...this.STRONG_REQUIREMENT_PATTERNS,
+      ...packPatterns,
+    ].some((pattern) => pattern.test(text));
+    if (!strongRequirement && this.hasOfferSignal(text, language)) {
+      return "offer";
+    }
+
+    // "Budget" alone also shows up in offers ("fits every budget")
+    if (matches >= 2) return "requirement";
+    if (matches === 1 && !/\bbudget\b/i.test(text)) return "requirement";
+    return "offer";
+  }
+
+  /**
+   * Whether the message says it offers a property ("for rent", "want to sell")
+   */
+  public static hasOfferSignal(
+    message: string,
+    language: DetectedLanguage = detectLanguage(message)
+  ): boolean {
+    const pack = LANGUAGE_PACKS[language];
+    return [
+      ...this.OFFER_PATTERNS,
+      ...this.AVAILABILITY_PATTERNS,
+      ...(pack?.rentalPatterns || []),
+      ...(pack?.salePatterns || []),
+    ].some((pattern) => pattern.test(message));
+  }
+
   /**
    * Filters a message to determine if it's likely a property listing
+   * (an offer or a requirement)
    */
-  public static filterMessage(message: string): PropertyFilterResult {
+  public static filterMessage(
+    message: string,
+    rules: FilterRules = {}
+  ): PropertyFilterResult {
     if (!message || typeof message !== "string") {
       return {
         isPropertyListing: false,
+        intent: "offer",
+        language: "en",
         confidence: 0,
         matchedKeywords: [],
         matchedPatterns: [],
@@ -229,7 +389,26 @@ export class PropertyMessageFilter {
       };
     }
 
-    const text = message.toLowerCase().trim();
+    // English lists always apply: native-script posts mix in "2 BHK", "sqft"
+    const language = detectLanguage(message);
+    const pack = LANGUAGE_PACKS[language];
+    const text = normalizeDigits(message.toLowerCase().trim());
+    const weights = { ...DEFAULT_FILTER_WEIGHTS, ...rules.weights };
+
+    const excludedKeyword = (rules.exclude_keywords || []).find((keyword) =>
+      text.includes(keyword.toLowerCase())
+    );
+    if (excludedKeyword) {
+      return {
+        isPropertyListing: false,
+        intent: "offer",
+        language,
+        confidence: 0,
+        matchedKeywords: [],
+        matchedPatterns: [],
+        reason: `Contains excluded keyword "${excludedKeyword}"`,
+      };
+    }
 
     // Quick exclusion check for common non-property messages
     const hasExclusionKeywords = this.EXCLUSION_KEYWORDS.some((keyword) =>
@@ -239,6 +418,8 @@ export class PropertyMessageFilter {
     if (hasExclusionKeywords && text.length < 50) {
       return {
         isPropertyListing: false,
+        intent: "offer",
+        language,
         confidence: 0,
         matchedKeywords: [],
         matchedPatterns: [],
@@ -247,23 +428,27 @@ export class PropertyMessageFilter {
     }
 
     // Check for property keywords
-    const matchedKeywords = this.PROPERTY_KEYWORDS.filter((keyword) =>
-      text.includes(keyword.toLowerCase())
-    );
+    const matchedKeywords = [
+      ...this.PROPERTY_KEYWORDS,
+      ...(pack?.keywords || []),
+      ...(rules.include_keywords || []),
+    ].filter((keyword) => text.includes(keyword.toLowerCase()));
 
     // Check for patterns
     const matchedPatterns: string[] = [];
     const patterns = {
-      price: this.PRICE_PATTERNS,
-      bhk: this.BHK_PATTERNS,
-      area: this.AREA_PATTERNS,
+      price: [...this.PRICE_PATTERNS, ...(pack?.pricePatterns || [])],
+      bhk: [...this.BHK_PATTERNS, ...(pack?.bhkPatterns || [])],
+      area: [...this.AREA_PATTERNS, ...(pack?.areaPatterns || [])],
       contact: this.CONTACT_PATTERNS,
-      floor: this.FLOOR_PATTERNS,
+      floor: [...this.FLOOR_PATTERNS, ...(pack?.floorPatterns || [])],
     };
 
     let totalPatternMatches = 0;
     Object.entries(patterns).forEach(([patternType, patternArray]) => {
       for (const pattern of patternArray) {
+        // The patterns are global, so reset where the last test stopped
+        pattern.lastIndex = 0;
         if (pattern.test(text)) {
           matchedPatterns.push(patternType);
           totalPatternMatches++;
@@ -275,7 +460,7 @@ export class PropertyMessageFilter {
     // Message structure analysis
     const lines = message.split("\n").filter((line) => line.trim().length > 0);
     const hasMultipleLines = lines.length > 2;
-    const hasNumbers = /\d+/.test(message);
+    const hasNumbers = /\d+/.test(text);
     const wordCount = message.split(/\s+/).length;
     const hasEmojis =
       /[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/u.test(
@@ -288,69 +473,107 @@ export class PropertyMessageFilter {
 
     // Keyword scoring
     if (matchedKeywords.length >= 3) {
-      score += 25;
+      score += weights.keywords_many;
       reasons.push(`${matchedKeywords.length} property keywords`);
     } else if (matchedKeywords.length >= 2) {
-      score += 15;
+      score += weights.keywords_some;
       reasons.push(`${matchedKeywords.length} property keywords`);
     } else if (matchedKeywords.length >= 1) {
-      score += 5;
+      score += weights.keyword_single;
       reasons.push(`${matchedKeywords.length} property keyword`);
     }
 
     // Pattern scoring
     if (matchedPatterns.includes("price")) {
-      score += 20;
+      score += weights.price;
       reasons.push("price pattern");
     }
     if (matchedPatterns.includes("bhk")) {
-      score += 20;
+      score += weights.bhk;
       reasons.push("BHK pattern");
     }
     if (matchedPatterns.includes("area")) {
-      score += 15;
+      score += weights.area;
       reasons.push("area pattern");
     }
     if (matchedPatterns.includes("contact")) {
-      score += 10;
+      score += weights.contact;
       reasons.push("contact pattern");
     }
     if (matchedPatterns.includes("floor")) {
-      score += 5;
+      score += weights.floor;
       reasons.push("floor pattern");
     }
 
     // Structure scoring
     if (hasMultipleLines && wordCount > 15) {
-      score += 10;
+      score += weights.structure;
       reasons.push("structured format");
     }
     if (hasNumbers && wordCount > 10) {
-      score += 5;
+      score += weights.numbers;
       reasons.push("contains numbers");
     }
     if (hasEmojis && matchedKeywords.length > 0) {
-      score += 5;
+      score += weights.emojis;
       reasons.push("formatted with emojis");
     }
 
+    // Requirements and offers are often one line ("Need shop on rent in
+    // Dadar", "2BHK for rent in Thane, tenant required") but still useful
+    // when they say what is wanted or offered
+    const intent = this.classifyIntent(message, language);
+    const namesProperty =
+      matchedPatterns.includes("bhk") ||
+      matchedPatterns.includes("price") ||
+      matchedKeywords.length >= 2;
+    if (intent === "requirement" && namesProperty) {
+      score += weights.requirement;
+      reasons.push("requirement post");
+    }
+    if (
+      intent === "offer" &&
+      (matchedPatterns.includes("bhk") || matchedPatterns.includes("price")) &&
+      this.hasOfferSignal(text, language)
+    ) {
+      score += weights.offer;
+      reasons.push("offer post");
+    }
+
     // Length bonus for detailed messages
     if (wordCount > 20 && matchedKeywords.length > 0) {
-      score += 5;
+      score += weights.detailed;
       reasons.push("detailed message");
     }
 
     // Penalty for very short messages without strong indicators
     if (wordCount < 5 && matchedKeywords.length < 2) {
-      score -= 10;
+      score -= weights.too_short;
       reasons.push("too short");
     }
 
     const confidence = Math.min(100, Math.max(0, score));
-    const isPropertyListing = confidence >= 60; // 60% confidence threshold
+    const threshold = rules.threshold ?? DEFAULT_FILTER_THRESHOLD;
+
+    const missingPatterns = (rules.required_patterns || []).filter(
+      (required) =>
+        !((FILTER_PATTERN_TYPES as readonly string[]).includes(required)
+          ? matchedPatterns.includes(required)
+          : required
+              .split("|")
+              .some((option) => text.includes(option.trim().toLowerCase())))
+    );
+    if (missingPatterns.length > 0) {
+      reasons.push(`missing required ${missingPatterns.join(", ")}`);
+    }
+
+    const isPropertyListing =
+      confidence >= threshold * 100 && missingPatterns.length === 0;
 
     return {
       isPropertyListing,
+      intent,
+      language,
       confidence: confidence / 100, // Convert to 0-1 range
       matchedKeywords,
       matchedPatterns,
@@ -0,0 +1,38 @@
+import QRCode from "qrcode";
+import qrcodeTerminal from "qrcode-terminal";
+
+const DEFAULT_WIDTH = 300;
+const MIN_WIDTH = 100;
+const MAX_WIDTH = 1000;
+
+/**
+ * Clamp a requested image width to something sensible
+ */
+export function parseQrWidth(value: unknown): number {
+  const width = Number(value);
+  if (!Number.isFinite(width) || width <= 0) return DEFAULT_WIDTH;
+  return Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, Math.round(width)));
+}
+
+export function renderQrPng(
+  text: string,
+  width = DEFAULT_WIDTH
+): Promise<Buffer> {
+  return QRCode.toBuffer(text, { type: "png", width, margin: 2 });
+}
+
+export function renderQrSvg(
+  text: string,
+  width = DEFAULT_WIDTH
+): Promise<string> {
+  return QRCode.toString(text, { type: "svg", width, margin: 2 });
+}
+
+/**
+ * Block-character rendering for terminals (curl from the admin CLI)
+ */
+export function renderQrTerminal(text: string): Promise<string> {
+  return new Promise((resolve) => {
+    qrcodeTerminal.generate(text, { small: true }, resolve);
+  });
+}